@@ -1,4 +1,5 @@
 import { t } from "./utils/i18n";
+import { DEFAULT_CONTEXT_LINES, DEFAULT_IAL_MODE, DEFAULT_IAL_IGNORED_ATTRIBUTES, DEFAULT_DIFF_ALGORITHM } from "./utils/diffUtils";
 
 export const getDefaultSettings = () => ({
     textinput: t('settings.textinput.value'),
@@ -6,4 +7,8 @@ export const getDefaultSettings = () => ({
     checkbox: false,
     textarea: t('settings.textarea.value'),
     select: 'option1',
+    contextLines: DEFAULT_CONTEXT_LINES,
+    diffAlgorithm: DEFAULT_DIFF_ALGORITHM,
+    ialMode: DEFAULT_IAL_MODE,
+    ialIgnoredAttributes: DEFAULT_IAL_IGNORED_ATTRIBUTES.join('\n'),
 });
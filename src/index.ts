@@ -25,15 +25,34 @@ import SettingPanel from "./setting-example.svelte";
 import { getDefaultSettings } from "./defaultSettings";
 import { setPluginInstance, t } from "./utils/i18n";
 import LoadingDialog from "./components/LoadingDialog.svelte";
-import { generateFullDiffHtml, generateSwappableDiffHtml, generateModeSwitchableDiffHtml, computeTextDiff, DiffViewMode } from "./utils/diffUtils";
+import { generateFullDiffHtml, generateSwappableDiffHtml, generateModeSwitchableDiffHtml, buildDiffRows, expandRegion, findCorrespondingOldLine, stripIalLines, parseIalAttributeRules, reattachIalLines, DiffViewMode, DiffResult, DiffCompareOptions, RegionExpansion, IalMode, DiffGranularity, DEFAULT_DIFF_GRANULARITY, DiffAlgorithm, DiffProgress, DiffRow, DiffRowSet, DiffViewOptions, ChangeNavigation, findChangeBlocks, formatChangeCounter, DiffSearchOptions, DiffSearchMatch, createSearchPattern, searchDiffLines, findCollapsedRegion, highlightSearchMatches, generateFindBarHtml, generateRedlineMarkdown } from "./utils/diffUtils";
+import { runDiffInWorker, DiffCancelledError, DiffJob } from "./utils/diffWorkerClient";
+import { VirtualList } from "./utils/virtualList";
 
 export const SETTINGS_FILE = "settings.json";
 
+/**
+ * 差异计算超过该时长（毫秒）才显示进度对话框，避免小文档闪烁
+ */
+const DIFF_PROGRESS_DELAY = 300;
+
+/**
+ * 差异对话框中变更导航命令的默认快捷键，命令的 langKey 为 `${导航目标}DiffChange`
+ */
+const DIFF_NAVIGATION_HOTKEYS: Record<ChangeNavigation, string> = {
+    first: "⌥F7",
+    previous: "⇧F7",
+    next: "F7",
+    last: "⌥⇧F7"
+};
+
 
 
 export default class PluginSample extends Plugin {
     private selectedDocuments: string[] = [];
     private currentDocumentFormat: 'markdown' | 'kramdown' = 'markdown';
+    // 打开的差异对话框中的变更导航，对话框关闭后为 null
+    private navigateDiffChange: ((target: ChangeNavigation) => void) | null = null;
 
     async onload() {
         // 插件被启用时会自动调用这个函数
@@ -45,6 +64,15 @@ export default class PluginSample extends Plugin {
 
         // 监听文档树菜单事件
         this.eventBus.on("open-menu-doctree", this.handleDocTreeMenu.bind(this));
+
+        // 注册变更导航快捷键，没有打开差异对话框时不做任何操作
+        (Object.keys(DIFF_NAVIGATION_HOTKEYS) as ChangeNavigation[]).forEach(target => {
+            this.addCommand({
+                langKey: `${target}DiffChange`,
+                hotkey: DIFF_NAVIGATION_HOTKEYS[target],
+                callback: () => this.navigateDiffChange?.(target)
+            });
+        });
     }
 
     async onLayoutReady() {
@@ -100,6 +128,21 @@ export default class PluginSample extends Plugin {
         await this.saveData(SETTINGS_FILE, settings);
     }
 
+    /**
+     * 变更导航命令当前生效的快捷键，用于在按钮提示中显示
+     */
+    private getDiffNavigationHotkeys(): Partial<Record<ChangeNavigation, string>> {
+        const hotkeys: Partial<Record<ChangeNavigation, string>> = {};
+        (Object.keys(DIFF_NAVIGATION_HOTKEYS) as ChangeNavigation[]).forEach(target => {
+            const command = this.commands.find(item => item.langKey === `${target}DiffChange`);
+            const hotkey = command ? command.customHotkey ?? command.hotkey : DIFF_NAVIGATION_HOTKEYS[target];
+            if (hotkey) {
+                hotkeys[target] = adaptHotkey(hotkey);
+            }
+        });
+        return hotkeys;
+    }
+
     /**
      * 处理文档树菜单事件
      */
@@ -192,8 +235,9 @@ export default class PluginSample extends Plugin {
                 return;
             }
 
-            // 创建差异比较对话框，传递格式参数
-            this.showDiffDialog(doc1Info, doc2Info, format);
+            // 创建差异比较对话框，传递格式参数和当前设置
+            const settings = await this.loadSettings();
+            await this.showDiffDialog(doc1Info, doc2Info, format, settings);
 
         } catch (error) {
             if (loadingDialog) {
@@ -235,10 +279,34 @@ export default class PluginSample extends Plugin {
         }
     }
 
+    /**
+     * 显示差异计算进度，计算较快时不显示
+     */
+    private showDiffProgress(onCancel: () => void) {
+        const progressDialog = new Dialog({
+            title: t("docDiff.computing"),
+            content: `<div class="doc-diff-progress"></div>`,
+            width: "400px",
+            disableClose: true
+        });
+        const loading = new LoadingDialog({
+            target: progressDialog.element.querySelector('.doc-diff-progress'),
+            props: { message: t("docDiff.progress.compare"), progress: 0, cancelText: t("docDiff.cancel") }
+        });
+        loading.$on('cancel', onCancel);
+        return {
+            update: (progress: DiffProgress) => loading.$set({ message: t(`docDiff.progress.${progress.stage}`), progress: progress.percent }),
+            close: () => {
+                loading.$destroy();
+                progressDialog.destroy();
+            }
+        };
+    }
+
     /**
      * 显示差异比较对话框
      */
-    private showDiffDialog(doc1: any, doc2: any, format: 'markdown' | 'kramdown' = 'markdown') {
+    private async showDiffDialog(doc1: any, doc2: any, format: 'markdown' | 'kramdown' = 'markdown', settings: any = getDefaultSettings()) {
         let isSwapped = false;
         let currentDoc1 = doc1;
         let currentDoc2 = doc2;
@@ -250,38 +318,632 @@ export default class PluginSample extends Plugin {
         const originalDoc2Content = doc2.content;
         
         // 保存当前的差异结果用于行级操作
-        let currentDiffResult: any = null;
+        let currentDiffResult: DiffResult = null;
+        // 折叠区域的展开状态，重新计算差异后重置
+        let expandedRegions: Record<number, RegionExpansion> = {};
+        const contextLines = Number(settings.contextLines);
+        // 比较选项，在对话框工具栏中切换
+        const compareOptions: DiffCompareOptions = {};
+        // IAL 行处理方式，仅 kramdown 格式下有效
+        let ialMode: IalMode | undefined = format === 'kramdown' ? settings.ialMode : undefined;
+        // 比较前从 IAL 中移除的易变属性，如 updated
+        const ialIgnoredAttributes = format === 'kramdown' ? parseIalAttributeRules(settings.ialIgnoredAttributes) : [];
+        // 差异粒度：kramdown 格式可按块比较，markdown 格式可按 Markdown 块比较
+        let granularity: DiffGranularity = DEFAULT_DIFF_GRANULARITY;
+        const granularityOptions: DiffGranularity[] = format === 'kramdown' ? ['line', 'block'] : ['line', 'markdown'];
+        // 差异算法，默认值来自设置，可在工具栏中切换
+        let algorithm: DiffAlgorithm = settings.diffAlgorithm;
         
-        const updateDiffContent = () => {
-            // 计算并保存当前的差异结果
-            currentDiffResult = computeTextDiff(currentDoc1.content, currentDoc2.content);
-            
-            const diffHtml = generateModeSwitchableDiffHtml(
-                currentDoc1,
-                currentDoc2,
-                currentMode,
-                {
-                    swapCallback: 'swapDocuments()',
-                    revertCallback: 'revertChanges()',
-                    saveCallback: 'saveChanges()',
-                    modeChangeCallback: 'switchDiffMode'
+        // 忽略 IAL 行时，视图和行号都基于移除 IAL 行后的内容
+        const toViewDoc = (doc: any) => ialMode === 'ignore' ? { ...doc, content: stripIalLines(doc.content).text } : doc;
+        
+        // 正在进行的差异计算，开始新的计算时取消旧的
+        let currentJob: DiffJob | null = null;
+        
+        /**
+         * 在 Worker 中计算差异，被取消或出错时返回 null
+         */
+        const computeDiff = async (): Promise<DiffResult | null> => {
+            currentJob?.cancel();
+            let latestProgress: DiffProgress = { stage: 'compare', percent: 0 };
+            let progressView: ReturnType<typeof this.showDiffProgress> | null = null;
+            const job = runDiffInWorker(
+                currentDoc1.content,
+                currentDoc2.content,
+                { ...compareOptions, contextLines, ialMode, ialIgnoredAttributes, granularity, algorithm },
+                progress => {
+                    latestProgress = progress;
+                    progressView?.update(progress);
                 }
             );
-            const container = dialog.element.querySelector('.doc-diff-container');
-            if (container) {
-                container.innerHTML = diffHtml;
+            currentJob = job;
+            const progressTimer = setTimeout(() => {
+                progressView = this.showDiffProgress(() => job.cancel());
+                progressView.update(latestProgress);
+            }, DIFF_PROGRESS_DELAY);
+            try {
+                return await job.promise;
+            } catch (error) {
+                if (!(error instanceof DiffCancelledError)) {
+                    console.error("计算差异失败:", error);
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    pushErrMsg(`${t("docDiff.error")}: ${errorMessage}`);
+                }
+                return null;
+            } finally {
+                clearTimeout(progressTimer);
+                progressView?.close();
+                if (currentJob === job) {
+                    currentJob = null;
+                }
+            }
+        };
+        
+        const getViewOptions = (): Partial<DiffViewOptions> => ({
+            diffResult: currentDiffResult,
+            expandedRegions,
+            compareOptions,
+            ialMode,
+            granularity,
+            granularityOptions,
+            algorithm,
+            syncScroll,
+            overview: true,
+            changeNavigation: { current: currentChange, hotkeys: this.getDiffNavigationHotkeys() },
+            virtual: true
+        });
+        
+        const buildDiffHtml = () => generateModeSwitchableDiffHtml(
+            toViewDoc(currentDoc1),
+            toViewDoc(currentDoc2),
+            currentMode,
+            {
+                swapCallback: 'swapDocuments()',
+                revertCallback: 'revertChanges()',
+                saveCallback: 'saveChanges()',
+                modeChangeCallback: 'switchDiffMode',
+                compareOptionCallback: 'toggleCompareOption',
+                ialModeCallback: 'switchIalMode',
+                granularityCallback: 'switchDiffGranularity',
+                algorithmCallback: 'switchDiffAlgorithm',
+                syncScrollCallback: 'toggleSyncScroll',
+                overviewCallback: 'jumpToDiffLine',
+                changeNavigationCallback: 'navigateDiffChange',
+                redlineCallback: 'createRedline()'
+            },
+            getViewOptions()
+        );
+        
+        // 当前视图中各行容器的虚拟列表，只渲染可见的行
+        let virtualLists: Partial<Record<keyof DiffRowSet, VirtualList>> = {};
+        // 并排模式右侧编辑过的行，键为行号；行滚出视口后 DOM 会被回收，保存时从这里读取
+        const lineEdits = new Map<number, string>();
+        let editedDoc = currentDoc2;
+        // 并排模式两侧是否同步滚动
+        let syncScroll = true;
+        // 同步时由程序设置的滚动位置，对应的 scroll 事件不再同步回另一侧
+        const syncedScrollTops = new WeakMap<HTMLElement, number>();
+        // 光标所在行在并排模式两侧行列表中的序号，-1 表示没有
+        let linkedRow = -1;
+        // 变更导航当前所在变更的序号，-1 表示尚未定位
+        let currentChange = -1;
+        // 查找状态：正则表达式为 null 表示没有在查找；currentOccurrence 为当前匹配在所在行该侧的匹配中的序号
+        let searchOptions: DiffSearchOptions | null = null;
+        let searchPattern: RegExp | null = null;
+        let searchMatches: DiffSearchMatch[] = [];
+        let searchIndex = -1;
+        let currentOccurrence = -1;
+        
+        const getScroller = () => dialog.element.querySelector('.doc-diff-container') as HTMLElement | null;
+        const getPaneScroller = (pane: 'left' | 'right') => dialog.element.querySelector(`#${pane}-pane-content`) as HTMLElement | null;
+        
+        // 重新渲染到视口中的行显示编辑后的内容
+        const applyLineEdits = (rowsContainer: HTMLElement) => {
+            rowsContainer.querySelectorAll<HTMLElement>('.side-line[data-line-number]').forEach(sideLine => {
+                const text = lineEdits.get(Number(sideLine.dataset.lineNumber));
+                const contentElement = sideLine.querySelector('.side-line-content');
+                if (text !== undefined && contentElement) {
+                    contentElement.textContent = text;
+                }
+            });
+        };
+        
+        const markLinkedRow = (rowsContainer: HTMLElement) => {
+            rowsContainer.querySelector(`.diff-virtual-row[data-row-index="${linkedRow}"]`)?.classList.add('diff-row-linked');
+        };
+        
+        /**
+         * 让另一侧滚动到与 source 对应的位置，两侧的行已逐行对齐，按行序号换算即可
+         */
+        const syncPaneScroll = (source: 'left' | 'right') => {
+            const target = source === 'left' ? 'right' : 'left';
+            const targetScroller = getPaneScroller(target);
+            if (!virtualLists[source] || !virtualLists[target] || !targetScroller) {
+                return;
+            }
+            virtualLists[target].setScrollPosition(virtualLists[source].getScrollPosition());
+            syncedScrollTops.set(targetScroller, targetScroller.scrollTop);
+        };
+        
+        const handlePaneScroll = (event: Event) => {
+            const scroller = event.currentTarget as HTMLElement;
+            if (syncedScrollTops.get(scroller) === scroller.scrollTop) {
+                syncedScrollTops.delete(scroller);
+                return;
+            }
+            syncedScrollTops.delete(scroller);
+            if (syncScroll) {
+                syncPaneScroll(scroller.id === 'left-pane-content' ? 'left' : 'right');
+            }
+        };
+        
+        const toggleSyncScroll = () => {
+            syncScroll = !syncScroll;
+            if (syncScroll) {
+                syncPaneScroll('left');
+            }
+        };
+        
+        /**
+         * 高亮光标所在的行及另一侧对应的行，对应行不在视口内时滚动过去
+         */
+        const updateLinkedRow = (node: Node | null) => {
+            const element = node instanceof Element ? node : node?.parentElement;
+            const row = element?.closest('.pane-content .diff-virtual-row') as HTMLElement | null;
+            if (!row || !dialog.element.contains(row) || Number(row.dataset.rowIndex) === linkedRow) {
+                return;
+            }
+            linkedRow = Number(row.dataset.rowIndex);
+            dialog.element.querySelectorAll('.diff-row-linked').forEach(linked => linked.classList.remove('diff-row-linked'));
+            const source = row.closest('#left-pane-content') ? 'left' : 'right';
+            for (const pane of ['left', 'right'] as const) {
+                const list = virtualLists[pane];
+                if (!list) {
+                    continue;
+                }
+                if (pane !== source && !list.isIndexVisible(linkedRow)) {
+                    list.scrollToIndex(linkedRow, 'center');
+                }
+                list.getRowElement(linkedRow)?.classList.add('diff-row-linked');
+            }
+        };
+        
+        /**
+         * 按列表可见的行更新概览条上的视口指示框
+         */
+        const updateOverviewViewport = (list: VirtualList) => {
+            const viewport = dialog.element.querySelector('.diff-overview-viewport') as HTMLElement | null;
+            const total = currentDiffResult?.lines.length || 0;
+            if (!viewport || total === 0 || list.rows.length === 0) {
+                return;
+            }
+            const last = list.getLastVisibleIndex();
+            const top = list.rows[list.getFirstVisibleIndex()].lineIndex ?? 0;
+            // 折叠行等代表多行，到下一行为止都算在视口内
+            const bottom = list.rows[last + 1]?.lineIndex ?? total;
+            viewport.style.top = `${top / total * 100}%`;
+            viewport.style.height = `${Math.max(0, bottom - top) / total * 100}%`;
+        };
+        
+        const handleSelectionChange = () => {
+            updateLinkedRow(document.getSelection()?.focusNode ?? null);
+        };
+        
+        const recordLineEdit = (event: Event) => {
+            const sideLine = (event.target as HTMLElement).closest?.('#right-pane-content .side-line[data-line-number]') as HTMLElement | null;
+            const contentElement = sideLine?.querySelector('.side-line-content') as HTMLElement | null;
+            if (!contentElement) {
+                return;
+            }
+            // 获取纯文本内容，编辑中换行产生的多行保留换行
+            let lineText = (contentElement.innerText || '').replace(/\u00A0/g, ' ').replace(/\n$/, '');
+            // 处理空行
+            if (lineText.trim() === '') {
+                lineText = '';
+            }
+            lineEdits.set(Number(sideLine.dataset.lineNumber), lineText);
+        };
+        
+        /**
+         * 可见的第一行的行号，重新渲染后据此恢复滚动位置
+         */
+        const getScrollAnchor = (): Pick<DiffRow, 'oldLineNumber' | 'newLineNumber'> | null => {
+            for (const list of Object.values(virtualLists)) {
+                const rows = list.rows;
+                let index = list.getFirstVisibleIndex();
+                while (index < rows.length && rows[index].oldLineNumber === undefined && rows[index].newLineNumber === undefined) {
+                    index++;
+                }
+                if (index < rows.length) {
+                    return { oldLineNumber: rows[index].oldLineNumber, newLineNumber: rows[index].newLineNumber };
+                }
+            }
+            return null;
+        };
+        
+        const restoreScrollAnchor = (anchor: Pick<DiffRow, 'oldLineNumber' | 'newLineNumber'>) => {
+            const isAtOrAfter = (row: DiffRow) => anchor.newLineNumber !== undefined && row.newLineNumber !== undefined
+                ? row.newLineNumber >= anchor.newLineNumber
+                : anchor.oldLineNumber !== undefined && row.oldLineNumber !== undefined && row.oldLineNumber >= anchor.oldLineNumber;
+            // 并排模式两侧各自滚动，分别恢复
+            for (const list of Object.values(virtualLists)) {
+                const index = list.rows.findIndex(isAtOrAfter);
+                if (index >= 0) {
+                    list.scrollToIndex(index);
+                }
             }
         };
         
+        // 合并模式和修订模式只有一个行容器，其余模式分左右两侧
+        const isSinglePane = () => currentMode === DiffViewMode.UNIFIED || currentMode === DiffViewMode.INLINE;
+        
+        /**
+         * 视口顶部的行在差异结果中的序号
+         */
+        const getViewLine = () => {
+            const list = virtualLists.unified || virtualLists.right;
+            return list && list.rows.length > 0 ? list.rows[list.getFirstVisibleIndex()].lineIndex ?? 0 : 0;
+        };
+        
+        /**
+         * 在渲染出的行中标记查找结果
+         * 上下文行两侧相同，在合并模式中只显示一次，按查找范围归到一侧
+         * 渲染模式中块渲染后的文本与源码不同，只标记匹配，不标记当前匹配
+         */
+        const highlightSearchRows = (rowsContainer: HTMLElement, rows: DiffRow[]) => {
+            if (!searchPattern || !searchOptions || !currentDiffResult) {
+                return;
+            }
+            const contextSide = searchOptions.side === 'old' ? 'old' : 'new';
+            const current = searchMatches[searchIndex];
+            rowsContainer.querySelectorAll<HTMLElement>('.diff-virtual-row').forEach(rowElement => {
+                const row = rows[Number(rowElement.dataset.rowIndex)];
+                rowElement.querySelectorAll<HTMLElement>('.diff-line[data-line-index], .inline-diff-line, .side-line[data-line-number], .diff-rendered-block').forEach(lineElement => {
+                    const lineIndex = lineElement.dataset.lineIndex !== undefined ? Number(lineElement.dataset.lineIndex) : row?.lineIndex;
+                    const line = lineIndex !== undefined ? currentDiffResult.lines[lineIndex] : undefined;
+                    const isRendered = lineElement.matches('.diff-rendered-block');
+                    const content = isRendered || lineElement.matches('.inline-diff-line')
+                        ? lineElement
+                        : lineElement.querySelector<HTMLElement>(':scope > .diff-line-content, :scope > .side-line-content');
+                    if (!line || !content || (line.type === 'context' && searchOptions.changedOnly)) {
+                        return;
+                    }
+                    let side: 'old' | 'new';
+                    if (lineElement.closest('#left-pane-content')) {
+                        side = 'old';
+                    } else if (lineElement.closest('#right-pane-content')) {
+                        side = 'new';
+                    } else if (line.type === 'context') {
+                        side = contextSide;
+                    } else {
+                        side = lineElement.matches('.diff-line-removed, .diff-line-moved-from, .inline-diff-line-removed, .inline-diff-line-moved-from') ? 'old' : 'new';
+                    }
+                    if (searchOptions.side !== 'both' && searchOptions.side !== side) {
+                        return;
+                    }
+                    const isCurrent = !isRendered && current && current.lineIndex === lineIndex && current.side === side;
+                    highlightSearchMatches(content, searchPattern, isCurrent ? currentOccurrence : -1);
+                });
+            });
+        };
+        
+        // 仅重新渲染，不重新计算差异；保持可见的第一行不变
+        const renderDiffContent = () => {
+            const container = getScroller();
+            if (!container) {
+                return;
+            }
+            const anchor = getScrollAnchor();
+            Object.values(virtualLists).forEach(list => list.destroy());
+            linkedRow = -1;
+            if (editedDoc !== currentDoc2) {
+                lineEdits.clear();
+                editedDoc = currentDoc2;
+            }
+            
+            const viewDoc1 = toViewDoc(currentDoc1);
+            const viewDoc2 = toViewDoc(currentDoc2);
+            // 外层容器不滚动，合并模式下差异内容滚动，并排模式下两侧各自滚动
+            container.classList.toggle('doc-diff-side-by-side', !isSinglePane());
+            container.innerHTML = buildDiffHtml();
+            const rowSet = buildDiffRows(viewDoc1, viewDoc2, currentMode, getViewOptions());
+            virtualLists = {};
+            container.querySelectorAll<HTMLElement>('.diff-virtual-host').forEach(host => {
+                const pane = host.dataset.virtualPane as keyof DiffRowSet;
+                const scroller = (host.closest('.pane-content, .diff-content') as HTMLElement | null) || container;
+                const list = new VirtualList(scroller, host, rowSet[pane] || [], {
+                    onRender: rowsContainer => {
+                        if (pane === 'right') {
+                            applyLineEdits(rowsContainer);
+                        }
+                        markLinkedRow(rowsContainer);
+                        highlightSearchRows(rowsContainer, rowSet[pane] || []);
+                    }
+                });
+                virtualLists[pane] = list;
+                scroller.addEventListener('scroll', () => updateOverviewViewport(list), { passive: true });
+                if (pane !== 'unified') {
+                    scroller.addEventListener('scroll', handlePaneScroll, { passive: true });
+                }
+            });
+            if (virtualLists.left && virtualLists.right) {
+                VirtualList.align([virtualLists.left, virtualLists.right]);
+            }
+            if (anchor) {
+                restoreScrollAnchor(anchor);
+            }
+            const overviewList = virtualLists.unified || virtualLists.right;
+            if (overviewList) {
+                updateOverviewViewport(overviewList);
+            }
+        };
+        
+        /**
+         * 滚动到差异结果中的一行，并排模式下可指定显示在哪一侧
+         */
+        const scrollToDiffLine = (lineIndex: number, pane: keyof DiffRowSet = isSinglePane() ? 'unified' : 'right') => {
+            const list = virtualLists[pane];
+            if (!list) {
+                return;
+            }
+            // 没有对应的行时（如位于表格或折叠区域中）取之前最近的一行
+            let index = list.rows.findIndex(row => row.lineIndex === lineIndex);
+            if (index < 0) {
+                list.rows.forEach((row, i) => {
+                    if (row.lineIndex !== undefined && row.lineIndex <= lineIndex) {
+                        index = i;
+                    }
+                });
+            }
+            if (index >= 0) {
+                list.scrollToIndex(index, 'center');
+            }
+        };
+        
+        /**
+         * 概览条上点击的变更，并排模式下删除的行显示在左侧
+         */
+        const jumpToDiffLine = (lineIndex: number) => {
+            if (isSinglePane()) {
+                scrollToDiffLine(lineIndex);
+            } else {
+                scrollToDiffLine(lineIndex, currentDiffResult?.lines[lineIndex]?.type === 'removed' ? 'left' : 'right');
+            }
+        };
+        
+        /**
+         * 重新计算差异并渲染
+         * 计算被取消时调用 rollback 恢复切换前的状态；没有 rollback 说明文档内容已变化，旧结果不再可用，直接关闭对话框
+         */
+        const updateDiffContent = async (rollback?: () => void) => {
+            const result = await computeDiff();
+            if (!result) {
+                if (currentJob || !dialog.element.isConnected) {
+                    // 被更新的计算取代，或对话框已关闭
+                    return;
+                }
+                if (rollback) {
+                    rollback();
+                    renderDiffContent();
+                } else {
+                    dialog.destroy();
+                }
+                return;
+            }
+            // 保存当前的差异结果
+            currentDiffResult = result;
+            expandedRegions = {};
+            currentChange = -1;
+            if (searchPattern && searchOptions) {
+                searchMatches = searchDiffLines(currentDiffResult, searchPattern, searchOptions);
+                searchIndex = Math.min(Math.max(searchIndex, 0), searchMatches.length - 1);
+                updateCurrentMatch();
+            }
+            renderDiffContent();
+        };
+        
+        const expandDiffRegion = (regionStart: number, direction: 'up' | 'down' | 'all') => {
+            const region = currentDiffResult?.collapsedRegions.find(item => item.start === regionStart);
+            if (!region) {
+                return;
+            }
+            expandedRegions[regionStart] = expandRegion(region, expandedRegions[regionStart], direction);
+            renderDiffContent();
+        };
+        
+        const toggleCompareOption = (key: keyof DiffCompareOptions) => {
+            compareOptions[key] = !compareOptions[key];
+            updateDiffContent(() => compareOptions[key] = !compareOptions[key]);
+        };
+        
+        const jumpToMove = (moveId: number, side: 'from' | 'to') => {
+            const moveType = side === 'from' ? 'moved-from' : 'moved-to';
+            const lineIndex = currentDiffResult?.lines.findIndex(line => line.moveId === moveId && line.type === moveType) ?? -1;
+            if (lineIndex < 0) {
+                return;
+            }
+            if (isSinglePane()) {
+                scrollToDiffLine(lineIndex);
+            } else {
+                scrollToDiffLine(lineIndex, side === 'from' ? 'left' : 'right');
+            }
+            const targets = dialog.element.querySelectorAll(`[data-move-id="${moveId}"][data-move-side="${side}"]`);
+            if (targets.length === 0) {
+                return;
+            }
+            // 短暂高亮目标位置的整个移动块
+            targets.forEach(target => target.classList.add('diff-move-flash'));
+            setTimeout(() => targets.forEach(target => target.classList.remove('diff-move-flash')), 1500);
+        };
+        
+        /**
+         * 跳转到第一处、上一处、下一处或最后一处变更
+         * 尚未定位到某处变更时，上一处和下一处相对于视口顶部的行
+         */
+        const navigateChange = (target: ChangeNavigation) => {
+            const changes = currentDiffResult ? findChangeBlocks(currentDiffResult) : [];
+            if (changes.length === 0) {
+                return;
+            }
+            const viewLine = getViewLine();
+            let index: number;
+            switch (target) {
+                case 'first':
+                    index = 0;
+                    break;
+                case 'last':
+                    index = changes.length - 1;
+                    break;
+                case 'next':
+                    index = currentChange >= 0 ? currentChange + 1 : changes.findIndex(change => change.start >= viewLine);
+                    break;
+                default:
+                    index = currentChange >= 0 ? currentChange - 1 : changes.map(change => change.start < viewLine).lastIndexOf(true);
+            }
+            // 已经是第一处或最后一处
+            if (index < 0 || index >= changes.length) {
+                return;
+            }
+            currentChange = index;
+            jumpToDiffLine(changes[index].start);
+            const counter = dialog.element.querySelector('.diff-change-counter');
+            if (counter) {
+                counter.textContent = formatChangeCounter(currentChange, changes.length);
+            }
+        };
+        
+        const getFindBar = () => dialog.element.querySelector('.diff-find-bar') as HTMLElement;
+        const getFindInput = () => dialog.element.querySelector('.diff-find-input') as HTMLInputElement;
+        
+        /**
+         * 更新当前匹配的行内序号及查找栏中的计数
+         */
+        const updateCurrentMatch = () => {
+            const match = searchMatches[searchIndex];
+            currentOccurrence = match
+                ? searchMatches.slice(0, searchIndex).filter(other => other.lineIndex === match.lineIndex && other.side === match.side).length
+                : -1;
+            const count = dialog.element.querySelector('.diff-find-count');
+            if (!count) {
+                return;
+            }
+            if (getFindInput().classList.contains('diff-find-invalid')) {
+                count.textContent = t("docDiff.find.invalidRegex");
+            } else if (!searchPattern) {
+                count.textContent = '';
+            } else if (searchMatches.length === 0) {
+                count.textContent = t("docDiff.find.noResults");
+            } else {
+                count.textContent = t("docDiff.find.count", { current: String(searchIndex + 1), total: String(searchMatches.length) });
+            }
+        };
+        
+        /**
+         * 滚动到当前匹配，匹配位于折叠区域中时先展开该区域
+         */
+        const showSearchMatch = () => {
+            updateCurrentMatch();
+            const match = searchMatches[searchIndex];
+            if (match && currentMode === DiffViewMode.UNIFIED && currentDiffResult) {
+                const region = findCollapsedRegion(currentDiffResult, expandedRegions, match.lineIndex);
+                if (region) {
+                    expandedRegions[region.start] = expandRegion(region, expandedRegions[region.start], 'all');
+                    renderDiffContent();
+                }
+            }
+            Object.values(virtualLists).forEach(list => list.refresh());
+            if (match) {
+                scrollToDiffLine(match.lineIndex, isSinglePane() ? 'unified' : match.side === 'old' ? 'left' : 'right');
+            }
+        };
+        
+        /**
+         * 按查找栏中的条件重新查找，从视口顶部之后的第一个匹配开始
+         */
+        const runSearch = () => {
+            const findBar = getFindBar();
+            const input = getFindInput();
+            const isChecked = (name: string) => (findBar.querySelector(`[data-find-option="${name}"]`) as HTMLInputElement).checked;
+            searchOptions = {
+                query: input.value,
+                side: (findBar.querySelector('.diff-find-side') as HTMLSelectElement).value as DiffSearchOptions['side'],
+                regex: isChecked('regex'),
+                caseSensitive: isChecked('caseSensitive'),
+                changedOnly: isChecked('changedOnly')
+            };
+            try {
+                searchPattern = createSearchPattern(searchOptions);
+                input.classList.remove('diff-find-invalid');
+            } catch {
+                searchPattern = null;
+                input.classList.add('diff-find-invalid');
+            }
+            searchMatches = searchPattern && currentDiffResult ? searchDiffLines(currentDiffResult, searchPattern, searchOptions) : [];
+            const viewLine = getViewLine();
+            const next = searchMatches.findIndex(match => match.lineIndex >= viewLine);
+            searchIndex = searchMatches.length === 0 ? -1 : Math.max(next, 0);
+            showSearchMatch();
+        };
+        
+        const stepSearch = (delta: number) => {
+            if (searchMatches.length === 0) {
+                return;
+            }
+            searchIndex = (searchIndex + delta + searchMatches.length) % searchMatches.length;
+            showSearchMatch();
+        };
+        
+        const openFindBar = () => {
+            const findBar = getFindBar();
+            const input = getFindInput();
+            const wasHidden = findBar.style.display === 'none';
+            findBar.style.display = '';
+            input.focus();
+            input.select();
+            if (wasHidden && input.value) {
+                runSearch();
+            }
+        };
+        
+        const closeFindBar = () => {
+            getFindBar().style.display = 'none';
+            searchPattern = null;
+            searchMatches = [];
+            searchIndex = -1;
+            updateCurrentMatch();
+            Object.values(virtualLists).forEach(list => list.refresh());
+        };
+        
+        const switchDiffGranularity = (newGranularity: string) => {
+            const previous = granularity;
+            granularity = newGranularity as DiffGranularity;
+            updateDiffContent(() => granularity = previous);
+        };
+        
+        const switchDiffAlgorithm = (newAlgorithm: string) => {
+            const previous = algorithm;
+            algorithm = newAlgorithm as DiffAlgorithm;
+            updateDiffContent(() => algorithm = previous);
+        };
+        
+        const switchIalMode = (newMode: string) => {
+            const previous = ialMode;
+            ialMode = newMode as IalMode;
+            updateDiffContent(() => ialMode = previous);
+        };
+        
         const swapDocuments = () => {
             // 交换文档
-            const temp = currentDoc1;
-            currentDoc1 = currentDoc2;
-            currentDoc2 = temp;
-            isSwapped = !isSwapped;
+            const swap = () => {
+                const temp = currentDoc1;
+                currentDoc1 = currentDoc2;
+                currentDoc2 = temp;
+                isSwapped = !isSwapped;
+            };
+            swap();
             
-            // 更新差异内容
-            updateDiffContent();
+            // 更新差异内容，取消时换回
+            updateDiffContent(swap);
         };
         
         const revertChanges = async () => {
@@ -318,9 +980,35 @@ export default class PluginSample extends Plugin {
             }
         };
         
+        const createRedline = async () => {
+            try {
+                // 修订文档放在新文档（右侧文档）所在的目录下
+                const markdown = generateRedlineMarkdown(currentDiffResult, toViewDoc(currentDoc1), toViewDoc(currentDoc2));
+                const block = await getBlockByID(currentDoc2.id);
+                if (!block) {
+                    pushErrMsg(`${t("docDiff.redline.error")}: ${t("docDiff.cannotGetDocInfo")}`);
+                    return;
+                }
+                const title = t("docDiff.redline.docTitle", { title: currentDoc2.title }).replace(/\//g, '／');
+                const hpath = `${block.hpath.slice(0, block.hpath.lastIndexOf('/'))}/${title}`;
+                const docId = await createDocWithMd(block.box, hpath, markdown);
+                showMessage(t("docDiff.redline.success"));
+                
+                if (getFrontend().endsWith('mobile')) {
+                    openMobileFileById(this.app, docId);
+                } else {
+                    openTab({ app: this.app, doc: { id: docId } });
+                }
+            } catch (error) {
+                console.error("生成修订文档失败:", error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                pushErrMsg(`${t("docDiff.redline.error")}: ${errorMessage}`);
+            }
+        };
+        
         const switchDiffMode = (newMode: string) => {
             currentMode = newMode as DiffViewMode;
-            updateDiffContent();
+            renderDiffContent();
         };
         
         const saveChanges = async () => {
@@ -330,32 +1018,16 @@ export default class PluginSample extends Plugin {
                     return;
                 }
                 
-                // 获取右侧编辑区域的内容
-                const rightPaneContent = dialog.element.querySelector('#right-pane-content');
-                if (!rightPaneContent) {
-                    pushErrMsg(t("docDiff.cannotFindEditArea"));
-                    return;
-                }
-                
-                // 提取文本内容
-                let newContent = '';
-                const sideLines = rightPaneContent.querySelectorAll('.side-line');
-                const lines: string[] = [];
-                
-                sideLines.forEach((sideLine) => {
-                    const contentElement = sideLine.querySelector('.side-line-content');
-                    if (contentElement) {
-                        // 获取纯文本内容，移除HTML标签
-                        let lineText = contentElement.textContent || '';
-                        // 处理空行
-                        if (lineText === '\u00A0' || lineText.trim() === '') {
-                            lineText = '';
-                        }
-                        lines.push(lineText);
-                    }
+                // 右侧显示的是视图文档的各行，将编辑过的行替换进去
+                const lines = toViewDoc(currentDoc2).content.split('\n');
+                lineEdits.forEach((lineText, lineNumber) => {
+                    lines[lineNumber - 1] = lineText;
                 });
-                
-                newContent = lines.join('\n');
+                let newContent = lines.join('\n');
+                // 编辑区不包含 IAL 行，写回前按原位置补回
+                if (ialMode === 'ignore') {
+                    newContent = reattachIalLines(newContent, stripIalLines(currentDoc2.content));
+                }
                 
                 // 使用 confirm 函数显示确认对话框
                 confirm(
@@ -398,84 +1070,36 @@ export default class PluginSample extends Plugin {
                 // 新文档始终是右侧文档（currentDoc2），这是我们要修改的目标文档
                 const newDocId = currentDoc2.id;
                 // 旧文档始终是左侧文档（currentDoc1），这是我们要恢复到的原始内容
-                const oldDocContent = currentDoc1.content;
+                const oldDocContent = toViewDoc(currentDoc1).content;
                 
-                if (lineType === 'added' && diffLine.newLineNumber && diffLine.oldLineNumber) {
-                    // 撤回修改行：将新文档的该行替换为旧文档的对应行内容
+                if ((lineType === 'added' || lineType === 'modified') && diffLine.newLineNumber) {
+                    // 修改行对应旧文档中的一行，纯新增行没有对应行
+                    const correspondingOldLine = findCorrespondingOldLine(currentDiffResult, lineIndex);
                     const oldLines = oldDocContent.split('\n');
-                    const oldLineIndex = diffLine.oldLineNumber - 1;
                     
-                    if (oldLineIndex >= 0 && oldLineIndex < oldLines.length) {
-                        // 获取新文档当前内容 - 使用当前格式
-                        const newDocCurrentInfo = await this.getDocumentInfo(newDocId, format);
-                        const newDocCurrentContent = newDocCurrentInfo.content;
-                        const newLines = newDocCurrentContent.split('\n');
-                        const newLineIndex = diffLine.newLineNumber - 1;
-                        
-                        if (newLineIndex >= 0 && newLineIndex < newLines.length) {
-                            // 将新文档的当前行替换为旧文档的对应行
-                            newLines[newLineIndex] = oldLines[oldLineIndex];
-                            const updatedContent = newLines.join('\n');
-                            await updateBlock("markdown", updatedContent, newDocId);
-                            showMessage("已撤回到原文档内容");
-                            
-                            // 刷新差异视图 - 更新新文档（右侧文档）
-                            const updatedDocInfo = await this.getDocumentInfo(newDocId, format);
-                            currentDoc2 = updatedDocInfo;
-                            updateDiffContent();
-                        }
-                    }
-                } else if (lineType === 'added' && diffLine.newLineNumber && !diffLine.oldLineNumber) {
-                    // 撤回纯新增行：将该行替换为旧文档中对应位置的行内容
-                    const oldLines = oldDocContent.split('\n');
+                    // 获取新文档当前内容 - 使用当前格式
                     const newDocCurrentInfo = await this.getDocumentInfo(newDocId, format);
-                    const newDocCurrentContent = newDocCurrentInfo.content;
-                    const newLines = newDocCurrentContent.split('\n');
+                    // 忽略 IAL 行时差异行号基于移除 IAL 行后的内容
+                    const newDocStripped = ialMode === 'ignore' ? stripIalLines(newDocCurrentInfo.content) : null;
+                    const newLines = newDocStripped ? newDocStripped.lines : newDocCurrentInfo.content.split('\n');
                     const newLineIndex = diffLine.newLineNumber - 1;
                     
                     if (newLineIndex >= 0 && newLineIndex < newLines.length) {
-                        // 通过分析差异结果来找到更准确的对应位置
-                        let correspondingOldLineIndex = -1;
-                        
-                        // 向前查找最近的有oldLineNumber的行
-                        for (let i = lineIndex - 1; i >= 0; i--) {
-                            const prevLine = currentDiffResult.lines[i];
-                            if (prevLine.oldLineNumber) {
-                                correspondingOldLineIndex = prevLine.oldLineNumber - 1;
-                                break;
-                            }
-                        }
-                        
-                        // 如果没有找到前面的参考行，向后查找
-                        if (correspondingOldLineIndex === -1) {
-                            for (let i = lineIndex + 1; i < currentDiffResult.lines.length; i++) {
-                                const nextLine = currentDiffResult.lines[i];
-                                if (nextLine.oldLineNumber) {
-                                    // 使用前一行作为对应位置
-                                    correspondingOldLineIndex = Math.max(0, nextLine.oldLineNumber - 2);
-                                    break;
-                                }
-                            }
-                        }
-                        
-                        // 如果还是没找到，使用简单的位置映射
-                        if (correspondingOldLineIndex === -1) {
-                            correspondingOldLineIndex = Math.min(newLineIndex, oldLines.length - 1);
+                        let message: string;
+                        if (correspondingOldLine !== undefined && correspondingOldLine <= oldLines.length) {
+                            // 撤回修改行：将新文档的该行替换为旧文档的对应行
+                            newLines[newLineIndex] = oldLines[correspondingOldLine - 1];
+                            message = "已撤回到原文档内容";
+                        } else {
+                            // 撤回纯新增行：直接从新文档中移除该行
+                            newLines.splice(newLineIndex, 1);
+                            message = t("docDiff.revertAddedLineSuccess");
                         }
-                        
-                        // 确保索引在有效范围内
-                        correspondingOldLineIndex = Math.max(0, Math.min(correspondingOldLineIndex, oldLines.length - 1));
-                        
-                        // 获取旧文档对应位置的内容
-                        const oldLineContent = correspondingOldLineIndex < oldLines.length
-                            ? oldLines[correspondingOldLineIndex]
-                            : '';
-                        
-                        // 将新增行替换为旧文档对应位置的内容
-                        newLines[newLineIndex] = oldLineContent;
-                        const updatedContent = newLines.join('\n');
-                        await updateBlock("markdown", updatedContent, newDocId);
-                        showMessage("已撤回到原文档对应位置的内容");
+                        const revertedContent = newDocStripped
+                            ? reattachIalLines(newLines.join('\n'), newDocStripped)
+                            : newLines.join('\n');
+                        await updateBlock("markdown", revertedContent, newDocId);
+                        showMessage(message);
                         
                         // 刷新差异视图 - 更新新文档（右侧文档）
                         const updatedDocInfo = await this.getDocumentInfo(newDocId, format);
@@ -492,43 +1116,96 @@ export default class PluginSample extends Plugin {
         
         // applyLine 函数已移除，因为原文档被删除的行不显示接受按钮
         
+        // 初始化差异结果，计算被取消时不打开对话框
+        currentDiffResult = await computeDiff();
+        if (!currentDiffResult) {
+            return;
+        }
+        
         // 将函数暴露到全局，以便HTML中的按钮可以调用
         (window as any).swapDocuments = swapDocuments;
         (window as any).revertChanges = revertChanges;
         (window as any).revertLine = revertLine;
         (window as any).switchDiffMode = switchDiffMode;
         (window as any).saveChanges = saveChanges;
-        
-        // 初始化差异结果
-        currentDiffResult = computeTextDiff(currentDoc1.content, currentDoc2.content);
-        
-        const initialDiffHtml = generateModeSwitchableDiffHtml(
-            currentDoc1,
-            currentDoc2,
-            currentMode,
-            {
-                swapCallback: 'swapDocuments()',
-                revertCallback: 'revertChanges()',
-                saveCallback: 'saveChanges()',
-                modeChangeCallback: 'switchDiffMode'
-            }
-        );
+        (window as any).expandDiffRegion = expandDiffRegion;
+        (window as any).toggleCompareOption = toggleCompareOption;
+        (window as any).switchIalMode = switchIalMode;
+        (window as any).jumpToMove = jumpToMove;
+        (window as any).switchDiffGranularity = switchDiffGranularity;
+        (window as any).switchDiffAlgorithm = switchDiffAlgorithm;
+        (window as any).toggleSyncScroll = toggleSyncScroll;
+        (window as any).jumpToDiffLine = jumpToDiffLine;
+        (window as any).navigateDiffChange = navigateChange;
+        (window as any).createRedline = createRedline;
+        this.navigateDiffChange = navigateChange;
         
         dialog = new Dialog({
             title: t("docDiff.diffTitle"),
-            content: `<div class="doc-diff-container" style="height: 100%; overflow: auto;">
-                ${initialDiffHtml}
-            </div>`,
+            content: `
+                <div style="height: 100%; display: flex; flex-direction: column;">
+                    ${generateFindBarHtml()}
+                    <div class="doc-diff-container doc-diff-fixed" style="flex: 1; min-height: 0;"></div>
+                </div>
+            `,
             width: "90vw",
             height: "80vh",
             destroyCallback: () => {
+                currentJob?.cancel();
+                Object.values(virtualLists).forEach(list => list.destroy());
+                document.removeEventListener('selectionchange', handleSelectionChange);
                 // 清理全局函数
                 delete (window as any).swapDocuments;
                 delete (window as any).revertChanges;
                 delete (window as any).revertLine;
                 delete (window as any).switchDiffMode;
                 delete (window as any).saveChanges;
+                delete (window as any).expandDiffRegion;
+                delete (window as any).toggleCompareOption;
+                delete (window as any).switchIalMode;
+                delete (window as any).jumpToMove;
+                delete (window as any).switchDiffGranularity;
+                delete (window as any).switchDiffAlgorithm;
+                delete (window as any).toggleSyncScroll;
+                delete (window as any).jumpToDiffLine;
+                delete (window as any).navigateDiffChange;
+                delete (window as any).createRedline;
+                if (this.navigateDiffChange === navigateChange) {
+                    this.navigateDiffChange = null;
+                }
+            }
+        });
+        dialog.element.addEventListener('input', recordLineEdit);
+        dialog.element.addEventListener('click', event => updateLinkedRow(event.target as Node));
+        document.addEventListener('selectionchange', handleSelectionChange);
+        // 对话框中的内容不是编辑器，Ctrl+F 打开差异视图自己的查找栏
+        dialog.element.addEventListener('keydown', event => {
+            if ((event.ctrlKey || event.metaKey) && !event.altKey && !event.shiftKey && event.key.toLowerCase() === 'f') {
+                event.preventDefault();
+                event.stopPropagation();
+                openFindBar();
+            }
+        });
+        const findBar = getFindBar();
+        findBar.addEventListener('input', runSearch);
+        findBar.addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                stepSearch(event.shiftKey ? -1 : 1);
+            } else if (event.key === 'Escape') {
+                event.preventDefault();
+                event.stopPropagation();
+                closeFindBar();
+            }
+        });
+        findBar.addEventListener('click', event => {
+            const action = ((event.target as HTMLElement).closest('[data-find-action]') as HTMLElement | null)?.dataset.findAction;
+            if (action === 'previous' || action === 'next') {
+                stepSearch(action === 'next' ? 1 : -1);
+            } else if (action === 'close') {
+                closeFindBar();
             }
         });
+        renderDiffContent();
     }
 }
@@ -3,41 +3,335 @@
  * 实现类似GitHub的diff算法
  */
 
+import { t } from "./i18n";
+
 export enum DiffViewMode {
     UNIFIED = 'unified',    // 合并模式（统一diff视图）
-    SIDE_BY_SIDE = 'side-by-side'  // 并排模式（两个窗口）
+    SIDE_BY_SIDE = 'side-by-side',  // 并排模式（两个窗口）
+    RENDERED = 'rendered',  // 渲染模式（两侧按思源的显示效果逐块对照）
+    INLINE = 'inline'  // 修订模式（合并为一篇文档，行内标记删除和新增的文字）
+}
+
+/**
+ * 行内差异片段，用于标记行内具体新增/删除的词或字符
+ */
+export interface InlineFragment {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
 }
 
 export interface DiffLine {
-    type: 'added' | 'removed' | 'context';
+    type: 'added' | 'removed' | 'modified' | 'moved-from' | 'moved-to' | 'context';
     oldLineNumber?: number;
     newLineNumber?: number;
-    content: string;
+    content: string;  // modified 行及两侧文本不同的上下文行为新文档中的内容
+    oldContent?: string;  // modified 行及两侧文本不同的上下文行在旧文档中的内容
     isIdLine?: boolean; // 标记是否为ID行
+    fragments?: InlineFragment[]; // 行内差异片段（modified 行对应新内容；移动行内有修改时也有）
+    oldFragments?: InlineFragment[]; // modified 行旧内容的行内差异片段
+    moveId?: number; // 移动行所属的移动块
+    blockStatus?: BlockDiffStatus; // 按块比较时，块的第一行标记该块的状态
+    nodeLabel?: MarkdownNodeLabel; // 按 Markdown 块比较时，节点第一行标记节点类型及变化
+    absorbed?: boolean; // 语义整理时并入变更块的相同行（空行等），在变更块中按上下文显示，不计入统计
+}
+
+/**
+ * Markdown 块节点的类型
+ */
+export type MarkdownNodeType = 'heading' | 'paragraph' | 'list-item' | 'quote' | 'code' | 'table' | 'thematic-break' | 'html' | 'math' | 'front-matter';
+
+/**
+ * Markdown 块节点的属性，用于显示节点类型标签
+ */
+export interface MarkdownNodeInfo {
+    type: MarkdownNodeType;
+    level?: number;      // 标题级别
+    lang?: string;       // 代码块语言
+    ordered?: boolean;   // 是否为有序列表项
+    listDepth: number;   // 所在列表的嵌套层级，不在列表中为 0
+    quoteDepth: number;  // 所在引用块的嵌套层级
+    parentText?: string; // 父节点第一行的开头，位于文档根部时为空字符串；只在移动的节点上记录
+}
+
+/**
+ * 节点标签：节点当前的属性，修改的节点还包含修改前的属性
+ */
+export interface MarkdownNodeLabel {
+    node: MarkdownNodeInfo;
+    previous?: MarkdownNodeInfo;
+}
+
+/**
+ * 移动块：旧文档中的一段内容在新文档中出现在另一处
+ */
+export interface DiffMove {
+    id: number;
+    fromIndex: number;  // 源位置（moved-from）第一行在 lines 中的下标
+    toIndex: number;    // 目标位置（moved-to）第一行在 lines 中的下标
+    oldStart: number;   // 源位置在旧文档中的起始行号
+    oldLines: number;
+    newStart: number;   // 目标位置在新文档中的起始行号
+    newLines: number;
+    blockIds: string[]; // 按 kramdown 块 ID 匹配到的块
+}
+
+/**
+ * 折叠的未更改区域，对应 lines 中 [start, end) 范围内的上下文行
+ */
+export interface CollapsedRegion {
+    start: number;
+    end: number;
+}
+
+/**
+ * 折叠区域的展开状态：从区域顶部/底部已展开的行数
+ */
+export interface RegionExpansion {
+    top: number;
+    bottom: number;
+}
+
+/**
+ * 差异块（hunk），对应统一 diff 中的一段 @@ -oldStart,oldLines +newStart,newLines @@
+ */
+export interface DiffHunk {
+    oldStart: number;    // 旧文档起始行号（从 1 开始，oldLines 为 0 时为插入位置的前一行）
+    oldLines: number;    // 旧文档中包含的行数
+    newStart: number;    // 新文档起始行号
+    newLines: number;    // 新文档中包含的行数
+    startIndex: number;  // 在 lines 中的起始下标
+    endIndex: number;    // 在 lines 中的结束下标（不含）
+    heading?: string;    // 差异块所在的最近一级 Markdown 标题
+}
+
+/**
+ * 按块比较时块的状态
+ */
+export type BlockDiffStatus = 'inserted' | 'deleted' | 'edited' | 'moved' | 'unchanged';
+
+/**
+ * 按块比较的结果中的一个块
+ */
+export interface BlockDiff {
+    status: BlockDiffStatus;
+    blockId?: string;    // 块 ID，删除的块为旧文档中的 ID，其余为新文档中的 ID
+    oldStart?: number;   // 块在旧文档中的起始行号
+    newStart?: number;   // 块在新文档中的起始行号
+    startIndex: number;  // 块的第一行在 lines 中的下标，移动的块为目标位置
+}
+
+/**
+ * 表格单元格、行、列的比较状态
+ */
+export type TableCellStatus = 'equal' | 'changed' | 'added' | 'removed';
+
+export interface TableCellDiff {
+    status: TableCellStatus;
+    oldText?: string;
+    newText?: string;
+    oldFragments?: InlineFragment[];  // 修改的单元格旧内容的行内差异片段
+    newFragments?: InlineFragment[];
+}
+
+export interface TableRowDiff {
+    status: TableCellStatus;
+    oldLineNumber?: number;
+    newLineNumber?: number;
+    cells: TableCellDiff[];  // 与 columns 一一对应
+}
+
+export interface TableColumnDiff {
+    status: 'equal' | 'added' | 'removed';
+    oldIndex?: number;  // 在旧表格中的列下标
+    newIndex?: number;
+    align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * 表格的单元格级差异，对应 lines 中 [startIndex, endIndex) 范围内的行
+ */
+export interface TableDiff {
+    startIndex: number;
+    endIndex: number;
+    oldStart: number;   // 旧表格第一行的行号
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    columns: TableColumnDiff[];
+    header: TableRowDiff;
+    rows: TableRowDiff[];
 }
 
 export interface DiffResult {
     lines: DiffLine[];
+    hunks: DiffHunk[];
+    collapsedRegions: CollapsedRegion[];
+    moves: DiffMove[];
+    blocks?: BlockDiff[];  // 仅按块比较时提供
+    tables: TableDiff[];   // 两侧对应且有变化的表格，以单元格为单位比较
     stats: {
-        additions: number;
-        deletions: number;
-        changes: number;
+        additions: number;      // 新增行数
+        deletions: number;      // 删除行数
+        modifications: number; // 修改行数
+        moves: number;          // 移动的行数（按目标位置计）
+        changes: number;        // 变更行总数
     };
 }
 
+/**
+ * 比较选项：只影响行是否被视为相同，显示时仍使用原始文本
+ */
+export interface DiffCompareOptions {
+    ignoreAllWhitespace?: boolean;              // 忽略所有空白字符
+    ignoreLeadingTrailingWhitespace?: boolean;  // 忽略行首行尾空白
+    ignoreWhitespaceAmount?: boolean;           // 忽略空白数量的变化（连续空白视为一个空格）
+    ignoreCase?: boolean;                       // 忽略大小写
+    ignoreBlankLines?: boolean;                 // 忽略空行的增删
+}
+
+/**
+ * 比较选项的键，按在工具栏中的显示顺序排列
+ */
+export const COMPARE_OPTION_KEYS: Array<keyof DiffCompareOptions> = [
+    'ignoreAllWhitespace',
+    'ignoreLeadingTrailingWhitespace',
+    'ignoreWhitespaceAmount',
+    'ignoreCase',
+    'ignoreBlankLines'
+];
+
+/**
+ * Kramdown IAL 行（{: id="..." updated="..."}）的处理方式
+ * show: 作为普通行显示并计入统计
+ * dim: 淡色显示，不计入统计
+ * ignore: 比较前移除，写回文档时再重新附加
+ */
+export type IalMode = 'show' | 'dim' | 'ignore';
+
+export const DEFAULT_IAL_MODE: IalMode = 'dim';
+
+/**
+ * 差异粒度
+ * line: 按行比较
+ * block: 将 kramdown 解析为块，先按块 ID、再按内容匹配块
+ * markdown: 将 Markdown 解析为标题、段落、列表项、引用块、代码块、表格等节点组成的树，从根部开始逐层比较子节点；
+ *           移到其他列表项、引用块下的节点显示为移动
+ */
+export type DiffGranularity = 'line' | 'block' | 'markdown';
+
+export const DEFAULT_DIFF_GRANULARITY: DiffGranularity = 'line';
+
+/**
+ * 行序列的差异算法
+ * myers: 最短编辑脚本，重复行较多时容易对齐到错误的公共行
+ * patience: 先以两侧各只出现一次的行为锚点分段，段内再用 Myers
+ * histogram: 优先以出现次数最少的公共行为锚点，是 patience 的扩展
+ */
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
+export const DEFAULT_DIFF_ALGORITHM: DiffAlgorithm = 'myers';
+
+export interface DiffComputeOptions extends DiffCompareOptions {
+    contextLines?: number; // 变更前后保留的上下文行数
+    ialMode?: IalMode;     // IAL 行的处理方式
+    granularity?: DiffGranularity;  // 差异粒度
+    algorithm?: DiffAlgorithm;  // 行序列的差异算法
+    ialIgnoredAttributes?: string[];  // 比较前从 IAL 中移除的属性规则
+}
+
+/**
+ * IAL 中的一个属性
+ */
+export interface IalAttribute {
+    key: string;
+    value: string;
+}
+
+/**
+ * 默认比较前移除的 IAL 属性规则，以 * 结尾表示前缀匹配
+ */
+export const DEFAULT_IAL_IGNORED_ATTRIBUTES = ['updated', 'fold', 'heading-fold'];
+
 export interface DiffViewOptions {
     mode: DiffViewMode;
     enableLineActions?: boolean;
     enableEditing?: boolean;  // 是否启用编辑功能（仅在side-by-side模式下有效）
     showLineNumbers?: boolean;
     contextLines?: number;
+    diffResult?: DiffResult;  // 预先计算好的差异结果，未提供时根据文档内容计算
+    compareOptions?: DiffCompareOptions;  // 当前的比较选项，用于显示工具栏状态
+    ialMode?: IalMode;  // IAL 行的处理方式，提供时在工具栏中显示切换项
+    granularity?: DiffGranularity;  // 差异粒度，提供时在工具栏中显示切换项
+    granularityOptions?: DiffGranularity[];  // 工具栏中可选的差异粒度
+    algorithm?: DiffAlgorithm;  // 差异算法，提供时在工具栏中显示切换项
+    syncScroll?: boolean;  // 并排模式下两侧是否同步滚动，提供时在工具栏中显示开关
+    overview?: boolean;  // 是否在差异内容旁显示变更概览条
+    changeNavigation?: {  // 变更导航，提供时在工具栏中显示导航按钮及当前位置
+        current: number;  // 当前变更的序号，-1 表示尚未定位
+        hotkeys?: Partial<Record<ChangeNavigation, string>>;  // 按钮提示中显示的快捷键
+    };
+    expandedRegions?: Record<number, RegionExpansion>;  // 折叠区域的展开状态，键为区域起始下标
+    virtual?: boolean;  // 只生成行容器，由调用方通过 buildDiffRows 和 VirtualList 按需渲染可见的行
+}
+
+/**
+ * 差异视图中的一行（合并模式下的一行、差异块头部、折叠行、表格，或并排模式中一侧的一行）
+ * 行号用于在重新渲染后恢复滚动位置和定位
+ */
+export interface DiffRow {
+    render: () => string;
+    lineIndex?: number;  // 对应的差异结果行下标
+    oldLineNumber?: number;
+    newLineNumber?: number;
+}
+
+/**
+ * 视图中各行容器对应的行，键为容器的 data-virtual-pane 属性
+ */
+export interface DiffRowSet {
+    unified?: DiffRow[];
+    left?: DiffRow[];
+    right?: DiffRow[];
+}
+
+/**
+ * 默认的上下文行数
+ */
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * 点击"向上/向下展开"时每次展开的行数
+ */
+export const EXPAND_STEP_LINES = 20;
+
+/**
+ * 差异计算的阶段
+ * compare: 比较行序列；moves: 检测移动；pairing: 配对修改行；tables: 比较表格；regions: 计算折叠区域和变更块
+ */
+export type DiffStage = 'compare' | 'moves' | 'pairing' | 'tables' | 'regions';
+
+/**
+ * 差异计算的进度，percent 为进入该阶段时的大致完成百分比
+ */
+export interface DiffProgress {
+    stage: DiffStage;
+    percent: number;
 }
 
 /**
  * 计算两个文本的差异
- * 使用改进的Myers算法
+ * 使用改进的Myers算法，onProgress 在进入每个阶段时调用
  */
-export function computeTextDiff(text1: string, text2: string): DiffResult {
+export function computeTextDiff(text1: string, text2: string, options: DiffComputeOptions = {}, onProgress?: (progress: DiffProgress) => void): DiffResult {
+    const ialMode = options.ialMode ?? DEFAULT_IAL_MODE;
+    const report = (stage: DiffStage, percent: number) => onProgress?.({ stage, percent });
+    
+    // 忽略 IAL 行时先将其移除
+    if (ialMode === 'ignore') {
+        text1 = stripIalLines(text1 || '').text;
+        text2 = stripIalLines(text2 || '').text;
+    }
+    
     // 使用增强的文本预处理
     const processedText1 = preprocessText(text1 || '');
     const processedText2 = preprocessText(text2 || '');
@@ -50,11 +344,35 @@ export function computeTextDiff(text1: string, text2: string): DiffResult {
         return index < array.length - 1 || line !== '';
     });
     
-    const diff = computeLineDiff(lines1, lines2);
-    const stats = calculateStats(diff);
+    let diff: DiffLine[];
+    let moveBlockIds: Map<number, string[]>;
+    let blocks: BlockDiff[] | undefined;
+    report('compare', 0);
+    if (options.granularity === 'block') {
+        ({ lines: diff, moveBlockIds, blocks } = computeBlockDiff(lines1, lines2, options));
+    } else if (options.granularity === 'markdown') {
+        ({ lines: diff, moveBlockIds, blocks } = computeMarkdownTreeDiff(lines1, lines2, options));
+    } else {
+        const lineDiff = computeLineDiff(lines1, lines2, options);
+        report('moves', 60);
+        moveBlockIds = detectMovedLines(lineDiff, options);
+        report('pairing', 75);
+        diff = pairModifiedLines(lineDiff, options);
+    }
+    const stats = calculateStats(diff, ialMode);
+    const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+    report('tables', 85);
+    const tables = computeTableDiffs(diff, lines1, lines2, options);
+    report('regions', 95);
+    const collapsedRegions = computeCollapsedRegions(diff, contextLines, tables);
     
     return {
         lines: diff,
+        hunks: computeHunks(diff, collapsedRegions),
+        collapsedRegions,
+        moves: collectMoves(diff, moveBlockIds),
+        blocks,
+        tables,
         stats
     };
 }
@@ -84,176 +402,2923 @@ function preprocessText(text: string): string {
 }
 
 /**
- * 检测是否为ID行（以{: ...}开头的行）
+ * 检测是否为ID行（整行为 {: key="value" ...} 形式的 IAL）
  */
 function isIdLine(content: string): boolean {
-    return /^\s*\{:\s+.*}/.test(content.trim());
+    return parseIalAttributes(content) !== null;
+}
+
+/**
+ * IAL 中单个属性的匹配模式，属性值中的引号由思源转义为 &quot;
+ */
+const IAL_ATTRIBUTE_PATTERN = /\s+([^\s="{}]+)="([^"]*)"/y;
+
+/**
+ * 行内出现的 IAL，例如列表项开头的 {: id="..."}
+ */
+const INLINE_IAL_PATTERN = /\{:((?:\s+[^\s="{}]+="[^"]*")*)\s*\}/g;
+
+/**
+ * 解析整行 IAL 的属性，不是 IAL 行时返回 null
+ */
+export function parseIalAttributes(content: string): IalAttribute[] | null {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith('{:') || !trimmed.endsWith('}')) {
+        return null;
+    }
+    
+    const body = trimmed.slice(2, -1);
+    const attributes: IalAttribute[] = [];
+    let position = 0;
+    let match: RegExpExecArray | null;
+    IAL_ATTRIBUTE_PATTERN.lastIndex = 0;
+    while ((match = IAL_ATTRIBUTE_PATTERN.exec(body)) !== null) {
+        attributes.push({ key: match[1], value: match[2] });
+        position = IAL_ATTRIBUTE_PATTERN.lastIndex;
+    }
+    
+    // 属性之后只允许剩余空白，且至少包含一个属性
+    if (attributes.length === 0 || body.slice(position).trim() !== '') {
+        return null;
+    }
+    return attributes;
+}
+
+/**
+ * 解析设置中的属性规则，按行或逗号分隔
+ */
+export function parseIalAttributeRules(text: string): string[] {
+    return (text || '')
+        .split(/[\n,]/)
+        .map(rule => rule.trim())
+        .filter(rule => rule !== '');
+}
+
+/**
+ * 判断属性名是否命中规则，规则以 * 结尾时按前缀匹配
+ */
+function matchesIalAttributeRule(key: string, rule: string): boolean {
+    return rule.endsWith('*') ? key.startsWith(rule.slice(0, -1)) : key === rule;
+}
+
+/**
+ * 移除行中所有 IAL 里命中规则的属性，用于生成比较键
+ */
+function normalizeIalAttributes(text: string, rules: string[]): string {
+    if (rules.length === 0 || !text.includes('{:')) {
+        return text;
+    }
+    
+    return text.replace(INLINE_IAL_PATTERN, (ial: string) => {
+        const attributes = parseIalAttributes(ial) || [];
+        const kept = attributes.filter(attr => !rules.some(rule => matchesIalAttributeRule(attr.key, rule)));
+        return `{:${kept.map(attr => ` ${attr.key}="${attr.value}"`).join('')}}`;
+    });
+}
+
+/**
+ * 移除 IAL 行后的文本，记录每个 IAL 行的位置以便写回时重新附加
+ */
+export interface IalStrippedText {
+    text: string;     // 移除 IAL 行后的文本
+    lines: string[];  // 保留下来的行
+    ialLines: Array<{ after: number; content: string }>;  // after 为该 IAL 行之前保留下来的行数
+}
+
+/**
+ * 移除文本中的 IAL 行
+ */
+export function stripIalLines(text: string): IalStrippedText {
+    const lines: string[] = [];
+    const ialLines: IalStrippedText['ialLines'] = [];
+    
+    for (const line of normalizeLineEndings(text).split('\n')) {
+        if (isIdLine(line)) {
+            ialLines.push({ after: lines.length, content: line });
+        } else {
+            lines.push(line);
+        }
+    }
+    
+    return { text: lines.join('\n'), lines, ialLines };
+}
+
+/**
+ * 将移除的 IAL 行重新附加到编辑后的文本中
+ * 通过比较编辑前后的文本定位每个 IAL 行原先跟随的行；该行被删除时附加到其前面仍保留的位置
+ */
+export function reattachIalLines(editedText: string, stripped: IalStrippedText): string {
+    if (stripped.ialLines.length === 0) {
+        return editedText;
+    }
+    
+    const editedLines = normalizeLineEndings(editedText).split('\n');
+    const ops = myersDiff(stripped.lines, editedLines);
+    
+    // insertPoint[k]：原文本中前 k 行之后的位置，在编辑后文本中对应的行数
+    // 修改块中第 i 个删除行视为被第 i 个插入行替换，多出的删除行对应到块末尾
+    const insertPoint = new Int32Array(stripped.lines.length + 1);
+    let pos = 0;
+    while (pos < ops.length) {
+        if (ops[pos].type === 'equal') {
+            insertPoint[ops[pos].oldIndex + 1] = ops[pos].newIndex + 1;
+            pos++;
+            continue;
+        }
+        const blockStart = pos;
+        while (pos < ops.length && ops[pos].type === 'delete') {
+            pos++;
+        }
+        const deleteEnd = pos;
+        while (pos < ops.length && ops[pos].type === 'insert') {
+            pos++;
+        }
+        const insertCount = pos - deleteEnd;
+        for (let k = blockStart; k < deleteEnd; k++) {
+            insertPoint[ops[k].oldIndex + 1] = ops[k].newIndex + Math.min(k - blockStart + 1, insertCount);
+        }
+    }
+    
+    const ialByPoint = new Map<number, string[]>();
+    for (const ial of stripped.ialLines) {
+        const point = insertPoint[ial.after];
+        if (!ialByPoint.has(point)) {
+            ialByPoint.set(point, []);
+        }
+        ialByPoint.get(point).push(ial.content);
+    }
+    
+    const result: string[] = [];
+    for (let i = 0; i <= editedLines.length; i++) {
+        result.push(...(ialByPoint.get(i) || []));
+        if (i < editedLines.length) {
+            result.push(editedLines[i]);
+        }
+    }
+    return result.join('\n');
+}
+
+/**
+ * 根据比较选项生成用于比较的键
+ */
+function toComparisonKey(text: string, options: DiffComputeOptions): string {
+    let key = normalizeIalAttributes(text, options.ialIgnoredAttributes || []);
+    if (options.ignoreAllWhitespace) {
+        key = key.replace(/\s+/g, '');
+    } else if (options.ignoreWhitespaceAmount) {
+        key = key.replace(/\s+/g, ' ').trimEnd();
+    } else if (options.ignoreLeadingTrailingWhitespace) {
+        key = key.trim();
+    }
+    if (options.ignoreCase) {
+        key = key.toLowerCase();
+    }
+    return key;
 }
 
 /**
  * 计算行级差异
+ * 开启忽略空行时，空行不参与比较，之后再按位置插回结果中作为上下文行
  */
-function computeLineDiff(lines1: string[], lines2: string[]): DiffLine[] {
+function computeLineDiff(lines1: string[], lines2: string[], options: DiffComputeOptions = {}): DiffLine[] {
     const result: DiffLine[] = [];
-    const lcs = longestCommonSubsequence(lines1, lines2);
     
-    let i = 0, j = 0, k = 0;
-    let oldLineNum = 1, newLineNum = 1;
+    // 参与比较的行下标
+    const isCompared = (line: string) => !options.ignoreBlankLines || line.trim() !== '';
+    const index1 = lines1.map((_, index) => index).filter(index => isCompared(lines1[index]));
+    const index2 = lines2.map((_, index) => index).filter(index => isCompared(lines2[index]));
+    
+    const keys1 = index1.map(index => toComparisonKey(lines1[index], options));
+    const keys2 = index2.map(index => toComparisonKey(lines2[index], options));
+    const ops = cleanupSemantic(
+        getSequenceDiff(options.algorithm)(keys1, keys2),
+        keys1,
+        keys2,
+        index1.map(index => lines1[index]),
+        index2.map(index => lines2[index])
+    );
+    
+    // 下一个尚未输出的行下标
+    let nextOld = 0;
+    let nextNew = 0;
+    
+    // 输出被忽略的空行：两侧都有时成对显示，否则只显示一侧的行号
+    const flushIgnoredLines = (oldLimit: number, newLimit: number) => {
+        while (nextOld < oldLimit || nextNew < newLimit) {
+            const hasOld = nextOld < oldLimit;
+            const hasNew = nextNew < newLimit;
+            result.push({
+                type: 'context',
+                oldLineNumber: hasOld ? nextOld + 1 : undefined,
+                newLineNumber: hasNew ? nextNew + 1 : undefined,
+                content: hasOld ? lines1[nextOld] : lines2[nextNew]
+            });
+            if (hasOld) nextOld++;
+            if (hasNew) nextNew++;
+        }
+    };
     
-    while (i < lines1.length || j < lines2.length) {
-        if (k < lcs.length && i < lines1.length && j < lines2.length && lines1[i] === lcs[k] && lines2[j] === lcs[k]) {
+    for (const op of ops) {
+        if (op.type === 'equal') {
             // 相同行
+            const oldIndex = index1[op.oldIndex];
+            const newIndex = index2[op.newIndex];
+            flushIgnoredLines(oldIndex, newIndex);
             result.push({
                 type: 'context',
-                oldLineNumber: oldLineNum,
-                newLineNumber: newLineNum,
-                content: lines1[i],
-                isIdLine: isIdLine(lines1[i])
+                oldLineNumber: oldIndex + 1,
+                newLineNumber: newIndex + 1,
+                content: lines1[oldIndex],
+                isIdLine: isIdLine(lines1[oldIndex])
             });
-            i++;
-            j++;
-            k++;
-            oldLineNum++;
-            newLineNum++;
-        } else if (i < lines1.length && (k >= lcs.length || lines1[i] !== lcs[k])) {
+            nextOld = oldIndex + 1;
+            nextNew = newIndex + 1;
+        } else if (op.type === 'delete') {
             // 删除的行
+            const oldIndex = index1[op.oldIndex];
+            flushIgnoredLines(oldIndex, nextNew);
             result.push({
                 type: 'removed',
-                oldLineNumber: oldLineNum,
-                content: lines1[i],
-                isIdLine: isIdLine(lines1[i])
+                oldLineNumber: oldIndex + 1,
+                content: lines1[oldIndex],
+                isIdLine: isIdLine(lines1[oldIndex]),
+                ...(op.absorbed ? { absorbed: true } : {})
             });
-            i++;
-            oldLineNum++;
-        } else if (j < lines2.length) {
+            nextOld = oldIndex + 1;
+        } else {
             // 新增的行
+            const newIndex = index2[op.newIndex];
+            flushIgnoredLines(nextOld, newIndex);
             result.push({
                 type: 'added',
-                newLineNumber: newLineNum,
-                content: lines2[j],
-                isIdLine: isIdLine(lines2[j])
+                newLineNumber: newIndex + 1,
+                content: lines2[newIndex],
+                isIdLine: isIdLine(lines2[newIndex]),
+                ...(op.absorbed ? { absorbed: true } : {})
             });
-            j++;
-            newLineNum++;
+            nextNew = newIndex + 1;
         }
     }
+    flushIgnoredLines(lines1.length, lines2.length);
     
-    return optimizeDiffResult(result);
+    return result;
 }
 
 /**
- * 优化差异结果，合并相邻的上下文行，提供更好的可读性
+ * 编辑脚本中连续的一段：相同的行，或一个变更块（删除的行和新增的行）
  */
-function optimizeDiffResult(diff: DiffLine[]): DiffLine[] {
-    const optimized: DiffLine[] = [];
-    const contextLines = 3; // 显示的上下文行数
-    
-    for (let i = 0; i < diff.length; i++) {
-        const line = diff[i];
-        
-        if (line.type !== 'context') {
-            // 非上下文行直接添加
-            optimized.push(line);
-        } else {
-            // 上下文行需要判断是否应该显示
-            const prevNonContext = findPreviousNonContextIndex(diff, i);
-            const nextNonContext = findNextNonContextIndex(diff, i);
-            
-            const shouldShow = (
-                (prevNonContext >= 0 && i - prevNonContext <= contextLines) ||
-                (nextNonContext >= 0 && nextNonContext - i <= contextLines)
-            );
-            
-            if (shouldShow) {
-                optimized.push(line);
-            }
-        }
-    }
-    
-    return optimized;
+interface EditSegment {
+    equal: boolean;
+    oldStart: number;
+    oldLength: number;
+    newStart: number;
+    newLength: number;
+    absorbed?: EditSegment[];  // 并入该变更段的相同段
 }
 
 /**
- * 查找前一个非上下文行的索引
+ * 将编辑脚本划分为相同段和变更段
  */
-function findPreviousNonContextIndex(diff: DiffLine[], currentIndex: number): number {
-    for (let i = currentIndex - 1; i >= 0; i--) {
-        if (diff[i].type !== 'context') {
-            return i;
+function toEditSegments(ops: EditOp[]): EditSegment[] {
+    const segments: EditSegment[] = [];
+    for (const op of ops) {
+        const equal = op.type === 'equal';
+        let last = segments[segments.length - 1];
+        if (!last || last.equal !== equal) {
+            last = { equal, oldStart: op.oldIndex, oldLength: 0, newStart: op.newIndex, newLength: 0 };
+            segments.push(last);
+        }
+        if (op.type !== 'insert') {
+            last.oldLength++;
+        }
+        if (op.type !== 'delete') {
+            last.newLength++;
         }
     }
-    return -1;
+    return segments;
 }
 
 /**
- * 查找下一个非上下文行的索引
+ * 由分段重新生成编辑脚本，变更段中删除在前、新增在后，并入变更段的相同项标记为 absorbed
  */
-function findNextNonContextIndex(diff: DiffLine[], currentIndex: number): number {
-    for (let i = currentIndex + 1; i < diff.length; i++) {
-        if (diff[i].type !== 'context') {
-            return i;
+function fromEditSegments(segments: EditSegment[]): EditOp[] {
+    const ops: EditOp[] = [];
+    for (const segment of segments) {
+        if (segment.equal) {
+            for (let k = 0; k < segment.oldLength; k++) {
+                ops.push({ type: 'equal', oldIndex: segment.oldStart + k, newIndex: segment.newStart + k });
+            }
+            continue;
+        }
+        const absorbed = segment.absorbed || [];
+        const isAbsorbed = (index: number, side: 'old' | 'new') => absorbed.some(equality => {
+            const start = side === 'old' ? equality.oldStart : equality.newStart;
+            return index >= start && index < start + equality.oldLength;
+        });
+        for (let k = 0; k < segment.oldLength; k++) {
+            const oldIndex = segment.oldStart + k;
+            ops.push({ type: 'delete', oldIndex, newIndex: segment.newStart, ...(isAbsorbed(oldIndex, 'old') ? { absorbed: true } : {}) });
+        }
+        for (let k = 0; k < segment.newLength; k++) {
+            const newIndex = segment.newStart + k;
+            ops.push({ type: 'insert', oldIndex: segment.oldStart + segment.oldLength, newIndex, ...(isAbsorbed(newIndex, 'new') ? { absorbed: true } : {}) });
         }
     }
-    return -1;
+    return ops;
+}
+
+/**
+ * 不含文字和数字的行（空行、分隔线、括号等），这样的行相同没有实际意义
+ */
+function isTrivialLine(text: string): boolean {
+    return !/[\p{L}\p{N}]/u.test(text);
 }
 
 /**
- * 计算最长公共子序列
+ * 语义清理（参考 diff-match-patch 的 cleanupSemantic）
+ * 1. 夹在两个变更块之间、只由无意义行组成且不长于两侧变更的相同段并入变更，
+ *    避免变更被一个空行打碎为交替的删除/新增
+ * 2. 纯删除或纯新增的变更块在等价的位置中滑动，优先让变更块从标题开始、
+ *    前面是空行、以空行结束，使变更块与段落边界对齐
  */
-function longestCommonSubsequence(arr1: string[], arr2: string[]): string[] {
-    const m = arr1.length;
-    const n = arr2.length;
-    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+function cleanupSemantic(ops: EditOp[], keys1: string[], keys2: string[], texts1: string[], texts2: string[]): EditOp[] {
+    const segments: EditSegment[] = [];
+    for (const segment of toEditSegments(ops)) {
+        const equality = segments[segments.length - 1];
+        const before = segments[segments.length - 2];
+        if (!segment.equal && equality?.equal && before && !before.equal
+            && equality.oldLength <= Math.max(before.oldLength, before.newLength)
+            && equality.oldLength <= Math.max(segment.oldLength, segment.newLength)
+            && texts1.slice(equality.oldStart, equality.oldStart + equality.oldLength).every(isTrivialLine)) {
+            // 相同段连同后一个变更块并入前一个变更块，并入的相同段仍记录下来，按上下文显示
+            segments.pop();
+            before.absorbed = [...(before.absorbed || []), equality, ...(segment.absorbed || [])];
+            before.oldLength += equality.oldLength + segment.oldLength;
+            before.newLength += equality.newLength + segment.newLength;
+            continue;
+        }
+        segments.push(segment);
+    }
     
-    // 构建DP表
-    for (let i = 1; i <= m; i++) {
-        for (let j = 1; j <= n; j++) {
-            if (arr1[i - 1] === arr2[j - 1]) {
-                dp[i][j] = dp[i - 1][j - 1] + 1;
-            } else {
-                dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+    for (let k = 1; k < segments.length; k++) {
+        const segment = segments[k];
+        const prev = segments[k - 1];
+        const next = segments[k + 1];
+        if (segment.equal || !prev.equal || (segment.oldLength > 0 && segment.newLength > 0)) {
+            continue;
+        }
+        const isInsert = segment.newLength > 0;
+        const keys = isInsert ? keys2 : keys1;
+        const texts = isInsert ? texts2 : texts1;
+        const start = isInsert ? segment.newStart : segment.oldStart;
+        const length = isInsert ? segment.newLength : segment.oldLength;
+        // 相邻的相同段至少保留一行，文档开头的相同段可以滑空
+        const minPrev = k - 1 === 0 ? 0 : 1;
+        const maxUp = prev.oldLength - minPrev;
+        const maxDown = next?.equal ? next.oldLength - (k + 1 === segments.length - 1 ? 0 : 1) : 0;
+        
+        let up = 0;
+        while (up < maxUp && keys[start - up - 1] === keys[start - up + length - 1]) {
+            up++;
+        }
+        let down = 0;
+        while (down < maxDown && keys[start + down] === keys[start + down + length]) {
+            down++;
+        }
+        if (up === 0 && down === 0) {
+            continue;
+        }
+        
+        const isBlank = (index: number) => index < 0 || index >= texts.length || texts[index].trim() === '';
+        const score = (from: number) => (ATX_HEADING_PATTERN.test(texts[from]) ? 2 : 0)
+            + (isBlank(from - 1) ? 1 : 0)
+            + (isBlank(from + length - 1) ? 1 : 0);
+        // 得分相同时取最靠下的位置
+        let shift = -up;
+        for (let offset = -up + 1; offset <= down; offset++) {
+            if (score(start + offset) >= score(start + shift)) {
+                shift = offset;
             }
         }
+        if (shift === 0) {
+            continue;
+        }
+        
+        prev.oldLength += shift;
+        prev.newLength += shift;
+        segment.oldStart += shift;
+        segment.newStart += shift;
+        if (next) {
+            next.oldStart += shift;
+            next.newStart += shift;
+            next.oldLength -= shift;
+            next.newLength -= shift;
+        }
     }
     
-    // 回溯构建LCS
-    const lcs: string[] = [];
-    let i = m, j = n;
+    return fromEditSegments(segments.filter(segment => segment.oldLength > 0 || segment.newLength > 0));
+}
+
+/**
+ * 计算需要折叠的未更改区域
+ * 每处变更前后保留 contextLines 行上下文，其余连续的上下文行折叠起来
+ */
+function computeCollapsedRegions(diff: DiffLine[], contextLines: number, tables: TableDiff[] = []): CollapsedRegion[] {
+    const regions: CollapsedRegion[] = [];
+    const context = Number.isFinite(contextLines) ? Math.max(0, Math.floor(contextLines)) : DEFAULT_CONTEXT_LINES;
+    
+    // 以表格形式显示的行整体保留，不参与折叠
+    const pinned = new Uint8Array(diff.length);
+    for (const table of tables) {
+        pinned.fill(1, table.startIndex, table.endIndex);
+    }
+    const isCollapsible = (index: number) => diff[index].type === 'context' && !pinned[index];
     
-    while (i > 0 && j > 0) {
-        if (arr1[i - 1] === arr2[j - 1]) {
-            lcs.unshift(arr1[i - 1]);
-            i--;
-            j--;
-        } else if (dp[i - 1][j] > dp[i][j - 1]) {
-            i--;
-        } else {
-            j--;
+    let i = 0;
+    while (i < diff.length) {
+        if (!isCollapsible(i)) {
+            i++;
+            continue;
+        }
+        
+        // 找到连续上下文行 [runStart, runEnd)
+        const runStart = i;
+        while (i < diff.length && isCollapsible(i)) {
+            i++;
+        }
+        const runEnd = i;
+        
+        // 紧邻变更的一侧保留上下文，文档开头/结尾一侧无需保留
+        const start = runStart > 0 ? runStart + context : runStart;
+        const end = runEnd < diff.length ? runEnd - context : runEnd;
+        
+        // 只隐藏一行时直接显示，折叠行并不能节省空间
+        if (end - start > 1) {
+            regions.push({ start, end });
         }
     }
     
-    return lcs;
+    return regions;
 }
 
 /**
- * 计算差异统计信息
+ * 根据折叠区域划分差异块：折叠区域之间包含变更的部分即为一个差异块
  */
-function calculateStats(diff: DiffLine[]): { additions: number; deletions: number; changes: number } {
-    let additions = 0;
-    let deletions = 0;
+function computeHunks(diff: DiffLine[], collapsedRegions: CollapsedRegion[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
     
-    for (const line of diff) {
-        if (line.type === 'added') {
-            additions++;
-        } else if (line.type === 'removed') {
-            deletions++;
+    // 折叠区域之间的可见片段
+    const spans: Array<[number, number]> = [];
+    let cursor = 0;
+    for (const region of collapsedRegions) {
+        if (region.start > cursor) {
+            spans.push([cursor, region.start]);
         }
+        cursor = region.end;
+    }
+    if (cursor < diff.length) {
+        spans.push([cursor, diff.length]);
     }
     
-    return {
-        additions,
-        deletions,
-        changes: additions + deletions
+    let oldCount = 0;
+    let newCount = 0;
+    let lineIndex = 0;
+    let heading: string | undefined;
+    let inFence = false;
+    
+    // 向前推进到 target，同时累计两侧行数并记录最近的标题
+    const advanceTo = (target: number) => {
+        for (; lineIndex < target; lineIndex++) {
+            const line = diff[lineIndex];
+            if (line.oldLineNumber !== undefined) {
+                oldCount++;
+            }
+            if (line.newLineNumber !== undefined) {
+                newCount++;
+                // 标题以新文档的结构为准
+                if (/^\s*(```|~~~)/.test(line.content)) {
+                    inFence = !inFence;
+                } else if (!inFence) {
+                    heading = parseHeading(line.content) ?? heading;
+                }
+            }
+        }
+    };
+    
+    for (const [start, end] of spans) {
+        if (!diff.slice(start, end).some(line => line.type !== 'context')) {
+            continue;
+        }
+        
+        advanceTo(start);
+        const oldBefore = oldCount;
+        const newBefore = newCount;
+        const hunkHeading = heading;
+        advanceTo(end);
+        const oldLines = oldCount - oldBefore;
+        const newLines = newCount - newBefore;
+        
+        hunks.push({
+            oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+            oldLines,
+            newStart: newLines > 0 ? newBefore + 1 : newBefore,
+            newLines,
+            startIndex: start,
+            endIndex: end,
+            heading: hunkHeading
+        });
+    }
+    
+    return hunks;
+}
+
+/**
+ * 解析 ATX 风格的 Markdown 标题，返回标题文本
+ */
+function parseHeading(content: string): string | undefined {
+    const match = content.match(/^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * 查找包含指定行的差异块
+ */
+export function findHunk(result: DiffResult, lineIndex: number): DiffHunk | undefined {
+    return result.hunks.find(hunk => lineIndex >= hunk.startIndex && lineIndex < hunk.endIndex);
+}
+
+/**
+ * 差异结果中的一处变更：连续的非上下文行，范围为 [start, end)
+ */
+export interface ChangeBlock {
+    start: number;
+    end: number;
+}
+
+/**
+ * 变更导航的目标
+ */
+export type ChangeNavigation = 'first' | 'previous' | 'next' | 'last';
+
+/**
+ * 按顺序列出差异结果中的各处变更
+ */
+export function findChangeBlocks(result: DiffResult): ChangeBlock[] {
+    const blocks: ChangeBlock[] = [];
+    const lines = result.lines;
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === 'context') {
+            i++;
+            continue;
+        }
+        const start = i;
+        while (i < lines.length && lines[i].type !== 'context') {
+            i++;
+        }
+        blocks.push({ start, end: i });
+    }
+    return blocks;
+}
+
+/**
+ * 变更导航的位置文本，current 为当前变更的序号，-1 表示尚未定位到某处变更
+ */
+export function formatChangeCounter(current: number, total: number): string {
+    if (total === 0) {
+        return t("docDiff.navigation.noChanges");
+    }
+    return current >= 0
+        ? t("docDiff.navigation.counter", { current: String(current + 1), total: String(total) })
+        : t("docDiff.navigation.total", { total: String(total) });
+}
+
+/**
+ * 差异视图中的查找条件
+ */
+export interface DiffSearchOptions {
+    query: string;
+    side: 'old' | 'new' | 'both';  // 在原文档、新文档或两侧中查找
+    regex: boolean;
+    caseSensitive: boolean;
+    changedOnly: boolean;  // 只在变更的行中查找
+}
+
+/**
+ * 查找结果中的一处匹配，start/end 为在该行该侧文本中的位置
+ * 两侧相同的上下文行只计一次，两侧都查找时记在新文档一侧
+ */
+export interface DiffSearchMatch {
+    lineIndex: number;
+    side: 'old' | 'new';
+    start: number;
+    end: number;
+}
+
+/**
+ * 按查找条件生成全局匹配的正则表达式，查找内容为空时返回 null，正则表达式无效时抛出 SyntaxError
+ */
+export function createSearchPattern(options: DiffSearchOptions): RegExp | null {
+    if (!options.query) {
+        return null;
+    }
+    const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * 查找文本中的所有匹配，忽略空匹配
+ */
+export function findTextMatches(text: string, pattern: RegExp): Array<[number, number]> {
+    const matches: Array<[number, number]> = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+        }
+        matches.push([match.index, match.index + match[0].length]);
+    }
+    return matches;
+}
+
+/**
+ * 差异行在指定一侧显示的文本，该行不出现在这一侧时返回 undefined
+ */
+export function getDiffLineText(line: DiffLine, side: 'old' | 'new'): string | undefined {
+    switch (line.type) {
+        case 'context':
+            return side === 'old' ? line.oldContent ?? line.content : line.content;
+        case 'modified':
+            return side === 'old' ? line.oldContent || '' : line.content;
+        case 'removed':
+        case 'moved-from':
+            return side === 'old' ? line.content : undefined;
+        default:
+            return side === 'new' ? line.content : undefined;
+    }
+}
+
+/**
+ * 在差异结果中查找，按行的顺序返回所有匹配，同一修改行中旧内容的匹配在前
+ */
+export function searchDiffLines(result: DiffResult, pattern: RegExp, options: DiffSearchOptions): DiffSearchMatch[] {
+    const sides: Array<'old' | 'new'> = options.side === 'both' ? ['old', 'new'] : [options.side];
+    const matches: DiffSearchMatch[] = [];
+    result.lines.forEach((line, lineIndex) => {
+        if (line.type === 'context' && options.changedOnly) {
+            return;
+        }
+        const lineSides = line.type === 'context' ? [sides[sides.length - 1]] : sides;
+        for (const side of lineSides) {
+            const text = getDiffLineText(line, side);
+            if (text === undefined) {
+                continue;
+            }
+            for (const [start, end] of findTextMatches(text, pattern)) {
+                matches.push({ lineIndex, side, start, end });
+            }
+        }
+    });
+    return matches;
+}
+
+/**
+ * 查找包含指定行且该行仍处于折叠状态的区域
+ */
+export function findCollapsedRegion(result: DiffResult, expandedRegions: Record<number, RegionExpansion>, lineIndex: number): CollapsedRegion | undefined {
+    return result.collapsedRegions.find(region => {
+        const expansion = expandedRegions[region.start] || { top: 0, bottom: 0 };
+        return lineIndex >= region.start + expansion.top && lineIndex < region.end - expansion.bottom;
+    });
+}
+
+/**
+ * 元素中参与查找和比较的文本节点，行前缀及不可编辑的附加内容（块状态标记、移动链接等）除外
+ */
+function collectTextNodes(element: HTMLElement): { nodes: Text[]; starts: number[]; text: string } {
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => node.parentElement?.closest('.diff-prefix, [contenteditable="false"]')
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_ACCEPT
+    });
+    const nodes: Text[] = [];
+    const starts: number[] = [];
+    let text = '';
+    while (walker.nextNode()) {
+        const node = walker.currentNode as Text;
+        nodes.push(node);
+        starts.push(text.length);
+        text += node.data;
+    }
+    return { nodes, starts, text };
+}
+
+/**
+ * 将元素文本中的各范围包裹在指定标签中，跨越多个文本节点的范围拆成多个标签
+ * 范围的位置基于 collectTextNodes 得到的文本，需按顺序排列且互不重叠
+ */
+function wrapTextRanges(element: HTMLElement, ranges: Array<{ start: number; end: number; className: string }>, tagName = 'span'): void {
+    const { nodes, starts } = collectTextNodes(element);
+    // 从后向前拆分，前面的文本节点及偏移保持不变
+    for (let r = ranges.length - 1; r >= 0; r--) {
+        const { start, end, className } = ranges[r];
+        for (let n = nodes.length - 1; n >= 0; n--) {
+            const nodeStart = starts[n];
+            const nodeEnd = nodeStart + nodes[n].length;
+            if (nodeEnd <= start || nodeStart >= end) {
+                continue;
+            }
+            let target = nodes[n];
+            if (end < nodeEnd) {
+                target.splitText(end - nodeStart);
+            }
+            if (start > nodeStart) {
+                target = target.splitText(start - nodeStart);
+            }
+            const wrapper = document.createElement(tagName);
+            wrapper.className = className;
+            target.replaceWith(wrapper);
+            wrapper.appendChild(target);
+        }
+    }
+}
+
+/**
+ * 在元素的文本中标记所有匹配
+ * current 为需要标记为当前匹配的序号，返回匹配的数量
+ */
+export function highlightSearchMatches(element: HTMLElement, pattern: RegExp, current = -1): number {
+    // 空行显示为不间断空格
+    const text = collectTextNodes(element).text.replace(/\u00A0/g, ' ');
+    const matches = findTextMatches(text, pattern);
+    wrapTextRanges(element, matches.map(([start, end], index) => ({
+        start,
+        end,
+        className: index === current ? 'diff-search-match diff-search-current' : 'diff-search-match'
+    })), 'mark');
+    return matches.length;
+}
+
+/**
+ * 生成差异对话框中的查找栏
+ */
+export function generateFindBarHtml(): string {
+    const sides = ['both', 'old', 'new'].map(side => `<option value="${side}">${escapeHtml(t(`docDiff.find.side.${side}`))}</option>`).join('');
+    const option = (name: string, label: string) => `
+        <label class="diff-find-option" title="${escapeHtml(t(`docDiff.find.${name}`))}">
+            <input type="checkbox" data-find-option="${name}">${label}
+        </label>
+    `;
+    const button = (action: string, label: string) => `
+        <button class="diff-find-button" data-find-action="${action}" title="${escapeHtml(t(`docDiff.find.${action}`))}">${label}</button>
+    `;
+    return `
+        <div class="diff-find-bar" style="display: none;">
+            <input class="diff-find-input" type="text" placeholder="${escapeHtml(t("docDiff.find.placeholder"))}">
+            <select class="diff-find-side" title="${escapeHtml(t("docDiff.find.sideTitle"))}">${sides}</select>
+            ${option('caseSensitive', 'Aa')}
+            ${option('regex', '.*')}
+            ${option('changedOnly', escapeHtml(t("docDiff.find.changedOnlyLabel")))}
+            <span class="diff-find-count"></span>
+            ${button('previous', '↑')}
+            ${button('next', '↓')}
+            ${button('close', '×')}
+        </div>
+        <style>
+            .diff-find-bar {
+                display: flex;
+                align-items: center;
+                gap: 6px;
+                padding: 4px 8px;
+                background: #f6f8fa;
+                border-bottom: 1px solid #d1d9e0;
+                font-size: 12px;
+                color: #586069;
+            }
+            .diff-find-input {
+                width: 240px;
+                font-size: 12px;
+                padding: 2px 6px;
+                border: 1px solid #d1d9e0;
+                border-radius: 4px;
+            }
+            .diff-find-input.diff-find-invalid {
+                border-color: #d73a49;
+                outline-color: #d73a49;
+            }
+            .diff-find-side {
+                font-size: 12px;
+                padding: 1px 4px;
+                border: 1px solid #d1d9e0;
+                border-radius: 4px;
+            }
+            .diff-find-option {
+                display: inline-flex;
+                align-items: center;
+                gap: 2px;
+                cursor: pointer;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace;
+            }
+            .diff-find-count {
+                min-width: 64px;
+                white-space: nowrap;
+            }
+            .diff-find-button {
+                background: #fff;
+                border: 1px solid #d1d9e0;
+                border-radius: 4px;
+                padding: 0 6px;
+                min-height: 22px;
+                cursor: pointer;
+                color: #586069;
+            }
+            .diff-find-button:hover {
+                background: #e1e4e8;
+                color: #24292e;
+            }
+            mark.diff-search-match {
+                background: #fff8c5;
+                color: inherit;
+                border-radius: 2px;
+            }
+            mark.diff-search-current {
+                background: #f9c513;
+            }
+        </style>
+    `;
+}
+
+/**
+ * 查找新文档中的行在旧文档中对应的行号
+ * 只有 modified 行有对应行，纯新增行返回 undefined
+ */
+export function findCorrespondingOldLine(result: DiffResult, lineIndex: number): number | undefined {
+    const line = result.lines[lineIndex];
+    return line && line.type === 'modified' ? line.oldLineNumber : undefined;
+}
+
+/**
+ * 格式化差异块头部，如 "@@ -12,7 +12,8 @@"
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+    return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * 按行内容识别移动块时，块中至少包含的相同或相似的非空行数
+ */
+const MIN_MOVED_LINES = 3;
+
+/**
+ * 按行内容识别移动块时，行数不足 MIN_MOVED_LINES 的块至少包含的字符数（相似的行按相似度折算）
+ * 使只有标题和一两个段落的短小章节移动后也能识别
+ */
+const MIN_MOVED_CHARACTERS = 40;
+
+/**
+ * 移动块内被视为"有少量修改"的行的最低相似度
+ */
+const MOVED_LINE_MIN_SIMILARITY = 0.5;
+
+/**
+ * 同一内容作为移动起点时最多尝试的候选位置数
+ */
+const MAX_MOVE_CANDIDATES = 20;
+
+/**
+ * IAL 行按块 ID 匹配时使用的匹配键前缀
+ */
+const BLOCK_ID_KEY_PREFIX = '\u0000id:';
+
+/**
+ * 获取 IAL 行中的块 ID
+ */
+function getIalBlockId(content: string): string | undefined {
+    return parseIalAttributes(content)?.find(attr => attr.key === 'id')?.value;
+}
+
+/**
+ * 识别移动的内容：删除的一段连续行在其他位置作为新增行出现
+ * 以完全相同的一行为起点，连续行中相同或相似的非空行至少有 MIN_MOVED_LINES 行或 MIN_MOVED_CHARACTERS 个字符，
+ * 或包含 ID 相同的 kramdown 块时视为移动
+ * 移动块内相似的行视为有少量修改，保留行内差异片段
+ * 直接修改 diff 中的行类型，返回每个移动块匹配到的块 ID
+ */
+function detectMovedLines(diff: DiffLine[], options: DiffComputeOptions = {}): Map<number, string[]> {
+    const moveBlockIds = new Map<number, string[]>();
+    
+    // 所在变更块的编号，同一变更块内的删除/新增属于原地修改而非移动
+    const changeBlockOf = new Int32Array(diff.length);
+    let changeBlock = 0;
+    for (let i = 0; i < diff.length; i++) {
+        if (diff[i].type === 'context') {
+            changeBlock++;
+        }
+        changeBlockOf[i] = changeBlock;
+    }
+    
+    const removed: number[] = [];
+    const added: number[] = [];
+    diff.forEach((line, index) => {
+        if (line.type === 'removed') {
+            removed.push(index);
+        } else if (line.type === 'added') {
+            added.push(index);
+        }
+    });
+    if (removed.length === 0 || added.length === 0) {
+        return moveBlockIds;
+    }
+    
+    // 匹配键：IAL 行按块 ID 匹配，其余行按比较键匹配
+    const matchKey = (line: DiffLine) => {
+        const blockId = line.isIdLine ? getIalBlockId(line.content) : undefined;
+        return blockId ? BLOCK_ID_KEY_PREFIX + blockId : toComparisonKey(line.content, options);
+    };
+    const removedKeys = removed.map(index => matchKey(diff[index]));
+    const addedKeys = added.map(index => matchKey(diff[index]));
+    const addedByKey = new Map<string, number[]>();
+    addedKeys.forEach((key, q) => {
+        if (!addedByKey.has(key)) {
+            addedByKey.set(key, []);
+        }
+        addedByKey.get(key).push(q);
+    });
+    
+    const usedRemoved = new Uint8Array(removed.length);
+    const usedAdded = new Uint8Array(added.length);
+    // 相邻两个删除行/新增行在文档中也相邻时才能构成连续的块
+    const removedAdjacent = (p: number) => diff[removed[p + 1]].oldLineNumber === diff[removed[p]].oldLineNumber + 1;
+    const addedAdjacent = (q: number) => diff[added[q + 1]].newLineNumber === diff[added[q]].newLineNumber + 1;
+    
+    // 行对是否可以放入同一移动块：完全相同、块 ID 相同或足够相似
+    const pairInline = new Map<string, ReturnType<typeof computeInlineDiff>>();
+    const isCompatible = (p: number, q: number, minSimilarity: number) => {
+        if (usedRemoved[p] || usedAdded[q]) {
+            return false;
+        }
+        if (removedKeys[p] === addedKeys[q]) {
+            return true;
+        }
+        const inline = computeInlineDiff(diff[removed[p]].content, diff[added[q]].content, options);
+        if (inline && inline.similarity >= minSimilarity) {
+            pairInline.set(`${p}:${q}`, inline);
+            return true;
+        }
+        return false;
+    };
+    
+    let nextMoveId = 1;
+    for (let seed = 0; seed < removed.length; seed++) {
+        if (usedRemoved[seed] || !diff[removed[seed]].content.trim()) {
+            continue;
+        }
+        
+        let best: { start: number; addedStart: number; length: number; weight: number; blockIds: string[] } | null = null;
+        for (const candidate of (addedByKey.get(removedKeys[seed]) || []).slice(0, MAX_MOVE_CANDIDATES)) {
+            if (usedAdded[candidate] || changeBlockOf[removed[seed]] === changeBlockOf[added[candidate]]) {
+                continue;
+            }
+            
+            // 从起点向前、向后扩展
+            // IAL 行位于块内容之后，向前扩展时处于 ID 相同的块内，块内的行只要有一定相似度即可
+            let start = seed;
+            let addedStart = candidate;
+            let inMatchedBlock = removedKeys[seed].startsWith(BLOCK_ID_KEY_PREFIX);
+            while (start > 0 && addedStart > 0 && removedAdjacent(start - 1) && addedAdjacent(addedStart - 1)
+                && isCompatible(start - 1, addedStart - 1, inMatchedBlock ? INLINE_DIFF_MIN_SIMILARITY : MOVED_LINE_MIN_SIMILARITY)) {
+                start--;
+                addedStart--;
+                // 空行结束当前块
+                inMatchedBlock = removedKeys[start].startsWith(BLOCK_ID_KEY_PREFIX)
+                    || (inMatchedBlock && diff[removed[start]].content.trim() !== '');
+            }
+            let end = seed + 1;
+            let addedEnd = candidate + 1;
+            while (end < removed.length && addedEnd < added.length && removedAdjacent(end - 1) && addedAdjacent(addedEnd - 1)
+                && isCompatible(end, addedEnd, MOVED_LINE_MIN_SIMILARITY)) {
+                end++;
+                addedEnd++;
+            }
+            
+            // 块中的行都是相同或相似的，统计非空行数及按相似度折算的字符数
+            let matched = 0;
+            let weight = 0;
+            const blockIds: string[] = [];
+            for (let k = 0; k < end - start; k++) {
+                const key = removedKeys[start + k];
+                const text = diff[removed[start + k]].content.trim();
+                if (key.startsWith(BLOCK_ID_KEY_PREFIX) && key === addedKeys[addedStart + k]) {
+                    blockIds.push(key.slice(BLOCK_ID_KEY_PREFIX.length));
+                } else if (text) {
+                    const similarity = key === addedKeys[addedStart + k] ? 1 : pairInline.get(`${start + k}:${addedStart + k}`)?.similarity ?? 0;
+                    matched++;
+                    weight += text.length * similarity;
+                }
+            }
+            if (matched < MIN_MOVED_LINES && weight < MIN_MOVED_CHARACTERS && blockIds.length === 0) {
+                continue;
+            }
+            if (!best || blockIds.length > best.blockIds.length || (blockIds.length === best.blockIds.length && weight > best.weight)) {
+                best = { start, addedStart, length: end - start, weight, blockIds };
+            }
+        }
+        
+        if (!best) {
+            continue;
+        }
+        
+        const moveId = nextMoveId++;
+        for (let k = 0; k < best.length; k++) {
+            const p = best.start + k;
+            const q = best.addedStart + k;
+            usedRemoved[p] = 1;
+            usedAdded[q] = 1;
+            const fromLine = diff[removed[p]];
+            const toLine = diff[added[q]];
+            fromLine.type = 'moved-from';
+            toLine.type = 'moved-to';
+            fromLine.moveId = moveId;
+            toLine.moveId = moveId;
+            
+            // 移动块内有修改的行显示行内差异
+            const inline = removedKeys[p] === addedKeys[q] ? computeInlineDiff(fromLine.content, toLine.content, options) : pairInline.get(`${p}:${q}`);
+            if (inline) {
+                fromLine.fragments = inline.oldFragments;
+                toLine.fragments = inline.newFragments;
+            }
+        }
+        moveBlockIds.set(moveId, best.blockIds);
+    }
+    
+    return moveBlockIds;
+}
+
+/**
+ * 根据移动行汇总移动块的位置信息
+ */
+function collectMoves(diff: DiffLine[], moveBlockIds: Map<number, string[]>): DiffMove[] {
+    const moves = new Map<number, DiffMove>();
+    diff.forEach((line, index) => {
+        if (line.moveId === undefined) {
+            return;
+        }
+        if (!moves.has(line.moveId)) {
+            moves.set(line.moveId, {
+                id: line.moveId,
+                fromIndex: -1,
+                toIndex: -1,
+                oldStart: 0,
+                oldLines: 0,
+                newStart: 0,
+                newLines: 0,
+                blockIds: moveBlockIds.get(line.moveId) || []
+            });
+        }
+        const move = moves.get(line.moveId);
+        if (line.type === 'moved-from') {
+            if (move.fromIndex < 0) {
+                move.fromIndex = index;
+                move.oldStart = line.oldLineNumber;
+            }
+            move.oldLines++;
+        } else {
+            if (move.toIndex < 0) {
+                move.toIndex = index;
+                move.newStart = line.newLineNumber;
+            }
+            move.newLines++;
+        }
+    });
+    return Array.from(moves.values()).sort((a, b) => a.id - b.id);
+}
+
+/**
+ * kramdown 块
+ */
+interface KramdownBlock {
+    id?: string;      // 块末尾 IAL 中的 ID
+    start: number;    // 第一行在文档行数组中的下标
+    lines: string[];
+    key: string;      // 去掉 IAL 行和空行后的内容比较键
+}
+
+/**
+ * 按内容匹配块时最低的相似度
+ */
+const BLOCK_MIN_SIMILARITY = 0.5;
+
+/**
+ * 将 kramdown 文本行解析为顶层块
+ * 顶层块以不缩进的 IAL 行结束，块前的空行归入该块；没有 IAL 行时按空行分块
+ */
+function parseKramdownBlocks(lines: string[], options: DiffComputeOptions): KramdownBlock[] {
+    const isBlockEnd = (line: string) => line.startsWith('{:') && isIdLine(line);
+    const hasIal = lines.some(isBlockEnd);
+    const blocks: KramdownBlock[] = [];
+    let start = 0;
+    
+    const pushBlock = (end: number) => {
+        if (end <= start) {
+            return;
+        }
+        const blockLines = lines.slice(start, end);
+        const last = blockLines[blockLines.length - 1];
+        blocks.push({
+            id: isBlockEnd(last) ? getIalBlockId(last) : undefined,
+            start,
+            lines: blockLines,
+            key: blockLines
+                .filter(line => line.trim() !== '' && !isIdLine(line))
+                .map(line => toComparisonKey(line, options))
+                .join('\n')
+        });
+        start = end;
+    };
+    
+    for (let i = 0; i < lines.length; i++) {
+        if (hasIal ? isBlockEnd(lines[i]) : lines[i].trim() === '') {
+            pushBlock(i + 1);
+        }
+    }
+    pushBlock(lines.length);
+    
+    return blocks;
+}
+
+/**
+ * 匹配两个文档的块：先按块 ID，再按完全相同的内容，最后按内容相似度
+ * 返回每个新块对应的旧块下标，没有对应块时为 -1
+ */
+function matchBlocks(oldBlocks: KramdownBlock[], newBlocks: KramdownBlock[], options: DiffComputeOptions): Int32Array {
+    const matchOfNew = new Int32Array(newBlocks.length).fill(-1);
+    const matched = new Uint8Array(oldBlocks.length);
+    const pair = (oldIndex: number, newIndex: number) => {
+        matchOfNew[newIndex] = oldIndex;
+        matched[oldIndex] = 1;
+    };
+    
+    // 按块 ID 匹配
+    const oldById = new Map<string, number>();
+    oldBlocks.forEach((block, index) => {
+        if (block.id) {
+            oldById.set(block.id, index);
+        }
+    });
+    newBlocks.forEach((block, index) => {
+        const oldIndex = block.id ? oldById.get(block.id) : undefined;
+        if (oldIndex !== undefined && !matched[oldIndex]) {
+            pair(oldIndex, index);
+        }
+    });
+    
+    // 按完全相同的内容匹配，相同内容按出现顺序依次对应
+    const oldByKey = new Map<string, number[]>();
+    oldBlocks.forEach((block, index) => {
+        if (!matched[index]) {
+            if (!oldByKey.has(block.key)) {
+                oldByKey.set(block.key, []);
+            }
+            oldByKey.get(block.key).push(index);
+        }
+    });
+    newBlocks.forEach((block, index) => {
+        if (matchOfNew[index] < 0) {
+            const candidates = oldByKey.get(block.key);
+            if (candidates && candidates.length > 0) {
+                pair(candidates.shift(), index);
+            }
+        }
+    });
+    
+    // 按内容相似度匹配剩余的块，相似度高的优先
+    const restOld = oldBlocks.map((_, index) => index).filter(index => !matched[index] && oldBlocks[index].key);
+    const restNew = newBlocks.map((_, index) => index).filter(index => matchOfNew[index] < 0 && newBlocks[index].key);
+    if (restOld.length * restNew.length <= MAX_PAIRING_CELLS) {
+        const candidates: Array<{ oldIndex: number; newIndex: number; similarity: number }> = [];
+        for (const oldIndex of restOld) {
+            for (const newIndex of restNew) {
+                const inline = computeInlineDiff(oldBlocks[oldIndex].key, newBlocks[newIndex].key, options);
+                if (inline && inline.similarity >= BLOCK_MIN_SIMILARITY) {
+                    candidates.push({ oldIndex, newIndex, similarity: inline.similarity });
+                }
+            }
+        }
+        candidates.sort((a, b) => b.similarity - a.similarity);
+        for (const candidate of candidates) {
+            if (!matched[candidate.oldIndex] && matchOfNew[candidate.newIndex] < 0) {
+                pair(candidate.oldIndex, candidate.newIndex);
+            }
+        }
+    }
+    
+    return matchOfNew;
+}
+
+/**
+ * 求最长递增子序列，返回子序列中元素的下标
+ */
+function longestIncreasingSubsequence(values: number[]): number[] {
+    const tails: number[] = [];  // tails[k]：长度为 k + 1 的递增子序列末尾元素的下标
+    const prev = new Int32Array(values.length).fill(-1);
+    for (let i = 0; i < values.length; i++) {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (values[tails[mid]] < values[i]) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        if (low > 0) {
+            prev[i] = tails[low - 1];
+        }
+        tails[low] = i;
+    }
+    
+    const result: number[] = [];
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) {
+        result.push(i);
+    }
+    return result.reverse();
+}
+
+/**
+ * 按 kramdown 块计算差异
+ * 匹配到的块中保持相对顺序的最多的一组视为原位，块内再按行比较；其余匹配到的块视为移动
+ */
+function computeBlockDiff(lines1: string[], lines2: string[], options: DiffComputeOptions): { lines: DiffLine[]; moveBlockIds: Map<number, string[]>; blocks: BlockDiff[] } {
+    const oldBlocks = parseKramdownBlocks(lines1, options);
+    const newBlocks = parseKramdownBlocks(lines2, options);
+    const matchOfNew = matchBlocks(oldBlocks, newBlocks, options);
+    
+    // 原位的块：按新文档顺序排列时旧块下标的最长递增子序列
+    const pairedNew = newBlocks.map((_, index) => index).filter(index => matchOfNew[index] >= 0);
+    const inPlace = new Uint8Array(newBlocks.length);
+    for (const k of longestIncreasingSubsequence(pairedNew.map(index => matchOfNew[index]))) {
+        inPlace[pairedNew[k]] = 1;
+    }
+    
+    // 移动的块在两端使用同一个移动块编号
+    const moveIdOfOld = new Map<number, number>();
+    const moveBlockIds = new Map<number, string[]>();
+    let nextMoveId = 1;
+    for (const index of pairedNew) {
+        if (!inPlace[index]) {
+            const moveId = nextMoveId++;
+            moveIdOfOld.set(matchOfNew[index], moveId);
+            moveBlockIds.set(moveId, newBlocks[index].id ? [newBlocks[index].id] : []);
+        }
+    }
+    
+    const result: DiffLine[] = [];
+    const blocks: BlockDiff[] = [];
+    
+    // 追加一个块的行，并在第一行标记块状态
+    const emit = (lines: DiffLine[], status: BlockDiffStatus) => {
+        if (lines.length > 0) {
+            lines[0].blockStatus = status;
+        }
+        result.push(...lines);
+    };
+    
+    // 块内按行比较，行号换算为文档中的行号
+    const diffBlockLines = (oldBlock: KramdownBlock, newBlock: KramdownBlock) => {
+        const lines = pairModifiedLines(computeLineDiff(oldBlock.lines, newBlock.lines, options), options);
+        for (const line of lines) {
+            if (line.oldLineNumber !== undefined) {
+                line.oldLineNumber += oldBlock.start;
+            }
+            if (line.newLineNumber !== undefined) {
+                line.newLineNumber += newBlock.start;
+            }
+        }
+        return lines;
+    };
+    
+    // 移动块两端的行；块内有修改的行附带行内差异
+    const movedLines = (oldBlock: KramdownBlock, newBlock: KramdownBlock, moveId: number, side: 'from' | 'to') => {
+        const inner = diffBlockLines(oldBlock, newBlock);
+        const lines: DiffLine[] = [];
+        for (const line of inner) {
+            const hasSide = side === 'from' ? line.oldLineNumber !== undefined : line.newLineNumber !== undefined;
+            if (!hasSide) {
+                continue;
+            }
+            const modified = line.type === 'modified';
+            lines.push({
+                type: side === 'from' ? 'moved-from' : 'moved-to',
+                oldLineNumber: side === 'from' ? line.oldLineNumber : undefined,
+                newLineNumber: side === 'to' ? line.newLineNumber : undefined,
+                content: side === 'from' && modified ? line.oldContent : line.content,
+                isIdLine: line.isIdLine,
+                fragments: modified ? (side === 'from' ? line.oldFragments : line.fragments) : undefined,
+                moveId
+            });
+        }
+        return lines;
+    };
+    
+    const wholeBlockLines = (block: KramdownBlock, type: 'removed' | 'added'): DiffLine[] => block.lines.map((content, k) => ({
+        type,
+        oldLineNumber: type === 'removed' ? block.start + k + 1 : undefined,
+        newLineNumber: type === 'added' ? block.start + k + 1 : undefined,
+        content,
+        isIdLine: isIdLine(content)
+    }));
+    
+    // 输出旧文档中 limit 之前尚未输出的块：未匹配的为删除，移动的为移动源
+    let nextOld = 0;
+    const emitOldBlocks = (limit: number) => {
+        for (; nextOld < limit; nextOld++) {
+            const oldBlock = oldBlocks[nextOld];
+            const moveId = moveIdOfOld.get(nextOld);
+            if (moveId !== undefined) {
+                const newBlock = newBlocks[matchOfNew.indexOf(nextOld)];
+                emit(movedLines(oldBlock, newBlock, moveId, 'from'), 'moved');
+            } else {
+                blocks.push({ status: 'deleted', blockId: oldBlock.id, oldStart: oldBlock.start + 1, startIndex: result.length });
+                emit(wholeBlockLines(oldBlock, 'removed'), 'deleted');
+            }
+        }
+    };
+    
+    // 每个新块之后第一个原位块对应的旧块下标，新增块之前先输出此前的删除块
+    const nextInPlaceOld = new Int32Array(newBlocks.length + 1).fill(oldBlocks.length);
+    for (let index = newBlocks.length - 1; index >= 0; index--) {
+        nextInPlaceOld[index] = inPlace[index] ? matchOfNew[index] : nextInPlaceOld[index + 1];
+    }
+    
+    newBlocks.forEach((newBlock, newIndex) => {
+        const oldIndex = matchOfNew[newIndex];
+        if (oldIndex < 0) {
+            emitOldBlocks(nextInPlaceOld[newIndex]);
+            blocks.push({ status: 'inserted', blockId: newBlock.id, newStart: newBlock.start + 1, startIndex: result.length });
+            emit(wholeBlockLines(newBlock, 'added'), 'inserted');
+            return;
+        }
+        
+        const oldBlock = oldBlocks[oldIndex];
+        const entry: BlockDiff = {
+            status: 'unchanged',
+            blockId: newBlock.id,
+            oldStart: oldBlock.start + 1,
+            newStart: newBlock.start + 1,
+            startIndex: result.length
+        };
+        if (inPlace[newIndex]) {
+            emitOldBlocks(oldIndex);
+            nextOld = oldIndex + 1;
+            entry.startIndex = result.length;
+            entry.status = oldBlock.key === newBlock.key ? 'unchanged' : 'edited';
+            emit(diffBlockLines(oldBlock, newBlock), entry.status);
+        } else {
+            entry.status = 'moved';
+            emit(movedLines(oldBlock, newBlock, moveIdOfOld.get(oldIndex), 'to'), 'moved');
+        }
+        blocks.push(entry);
+    });
+    emitOldBlocks(oldBlocks.length);
+    
+    return { lines: result, moveBlockIds, blocks };
+}
+
+/**
+ * Markdown 节点树中的节点
+ * 列表项和引用块是容器：列表项的子节点为嵌套的列表项和缩进在其下的块，引用块的子节点为其中的块
+ */
+interface MarkdownNode extends MarkdownNodeInfo {
+    text: string;   // 用于匹配的规范化内容：段落等合并换行和多余空白，代码块保留原有换行；引用块为空
+    start: number;  // 节点自身第一行在文档行数组中的下标
+    end: number;    // 节点自身最后一行之后的下标，不含子节点；引用块自身没有行，与 start 相同
+    parent?: MarkdownNode;  // 所在的列表项或引用块，位于文档根部时为空
+    children: MarkdownNode[];
+}
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+const ATX_HEADING_PATTERN = /^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^\s{0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-+*]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}> ?/;
+const MATH_FENCE_PATTERN = /^\s*\$\$/;
+const HTML_BLOCK_PATTERN = /^\s{0,3}<(?:[a-zA-Z][\w-]*|!--|\/[a-zA-Z])/;
+
+/**
+ * 按 Markdown 块比较时配对节点的最低内容相似度
+ */
+const NODE_MIN_SIMILARITY = 0.5;
+
+/**
+ * 计算行首缩进宽度，制表符按 4 个空格计
+ */
+function indentWidth(line: string): number {
+    return (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+}
+
+/**
+ * 合并多行文本中的换行和连续空白
+ */
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 判断一行是否开始一个新的块，用于结束段落和列表项的延续行
+ */
+function startsMarkdownBlock(line: string): boolean {
+    return ATX_HEADING_PATTERN.test(line) || FENCE_PATTERN.test(line) || THEMATIC_BREAK_PATTERN.test(line)
+        || LIST_ITEM_PATTERN.test(line) || QUOTE_PATTERN.test(line) || MATH_FENCE_PATTERN.test(line) || HTML_BLOCK_PATTERN.test(line);
+}
+
+/**
+ * 将 Markdown 文本行解析为节点树，返回按文档顺序（先序）排列的全部节点，各节点通过 parent/children 相连
+ * 列表项按缩进确定所属的上层列表项，引用块内的内容去掉引用标记后递归解析为其子节点
+ */
+function parseMarkdownNodes(lines: string[], offset = 0, quoteDepth = 0, container?: MarkdownNode): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+    const listStack: number[] = [];  // 各层列表项内容的缩进
+    const itemStack: MarkdownNode[] = [];  // 与 listStack 对应的列表项节点
+    const push = (node: Omit<MarkdownNode, 'start' | 'end' | 'quoteDepth' | 'listDepth' | 'parent' | 'children'>, start: number, end: number): MarkdownNode => {
+        const parent = itemStack[itemStack.length - 1] ?? container;
+        const created: MarkdownNode = { ...node, listDepth: listStack.length, quoteDepth, start: offset + start, end: offset + end, parent, children: [] };
+        parent?.children.push(created);
+        nodes.push(created);
+        return created;
+    };
+    const popList = (indent: number) => {
+        while (listStack.length > 0 && indent < listStack[listStack.length - 1]) {
+            listStack.pop();
+            itemStack.pop();
+        }
+    };
+    
+    let i = 0;
+    // 文档开头的 YAML front matter
+    if (offset === 0 && quoteDepth === 0 && lines[0]?.trim() === '---') {
+        const close = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        if (close > 0) {
+            push({ type: 'front-matter', text: lines.slice(1, close).join('\n') }, 0, close + 1);
+            i = close + 1;
+        }
+    }
+    
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+        
+        // 引用块：连续的引用行去掉一层引用标记后递归解析
+        if (QUOTE_PATTERN.test(line)) {
+            let end = i;
+            while (end < lines.length && QUOTE_PATTERN.test(lines[end])) {
+                end++;
+            }
+            popList(indentWidth(line));
+            const quote = push({ type: 'quote', text: '' }, i, i);
+            const inner = parseMarkdownNodes(lines.slice(i, end).map(item => item.replace(QUOTE_PATTERN, '')), offset + i, quoteDepth + 1, quote);
+            for (const node of inner) {
+                node.listDepth += listStack.length;
+            }
+            nodes.push(...inner);
+            i = end;
+            continue;
+        }
+        
+        const indent = indentWidth(line);
+        const listItem = THEMATIC_BREAK_PATTERN.test(line) ? null : line.match(LIST_ITEM_PATTERN);
+        if (listItem) {
+            // 标记缩进小于上层列表项内容缩进时，回到上层
+            popList(indent);
+            let end = i + 1;
+            while (end < lines.length && lines[end].trim() && !startsMarkdownBlock(lines[end])) {
+                end++;
+            }
+            const item = push({
+                type: 'list-item',
+                ordered: /\d/.test(listItem[2]),
+                text: collapseWhitespace([listItem[4], ...lines.slice(i + 1, end)].join(' '))
+            }, i, end);
+            item.listDepth++;
+            listStack.push(indent + listItem[2].length + Math.max(listItem[3].length, 1));
+            itemStack.push(item);
+            i = end;
+            continue;
+        }
+        
+        // 缩进不足的非列表行结束列表
+        popList(indent);
+        
+        const fence = line.match(FENCE_PATTERN);
+        if (fence) {
+            const marker = fence[2];
+            const closingFence = new RegExp(`^\\s*${marker[0]}{${marker.length},}\\s*$`);
+            let end = i + 1;
+            while (end < lines.length && !closingFence.test(lines[end])) {
+                end++;
+            }
+            const body = lines.slice(i + 1, end).map(item => item.slice(Math.min(indentWidth(item), fence[1].length)));
+            push({ type: 'code', lang: fence[3] || undefined, text: body.join('\n') }, i, Math.min(end + 1, lines.length));
+            i = end + 1;
+            continue;
+        }
+        
+        if (MATH_FENCE_PATTERN.test(line)) {
+            let end = i + 1;
+            // 单行的 $$...$$ 公式块
+            if (!/^\s*\$\$.*\S.*\$\$\s*$/.test(line)) {
+                while (end < lines.length && !MATH_FENCE_PATTERN.test(lines[end])) {
+                    end++;
+                }
+                end = Math.min(end + 1, lines.length);
+            }
+            push({ type: 'math', text: lines.slice(i, end).map(item => item.trim()).join('\n') }, i, end);
+            i = end;
+            continue;
+        }
+        
+        const heading = line.match(ATX_HEADING_PATTERN);
+        if (heading) {
+            push({ type: 'heading', level: heading[1].length, text: collapseWhitespace(heading[2] || '') }, i, i + 1);
+            i++;
+            continue;
+        }
+        
+        if (THEMATIC_BREAK_PATTERN.test(line)) {
+            push({ type: 'thematic-break', text: '' }, i, i + 1);
+            i++;
+            continue;
+        }
+        
+        if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+            let end = i + 2;
+            while (end < lines.length && lines[end].trim() && lines[end].includes('|')) {
+                end++;
+            }
+            const rows = [lines[i], ...lines.slice(i + 2, end)].map(row => splitTableRow(row).join(' | '));
+            push({ type: 'table', text: rows.join('\n') }, i, end);
+            i = end;
+            continue;
+        }
+        
+        if (HTML_BLOCK_PATTERN.test(line)) {
+            let end = i + 1;
+            while (end < lines.length && lines[end].trim()) {
+                end++;
+            }
+            push({ type: 'html', text: lines.slice(i, end).map(item => item.trim()).join('\n') }, i, end);
+            i = end;
+            continue;
+        }
+        
+        // 段落：直到空行或新的块；后跟 === / --- 时为 Setext 标题
+        let end = i + 1;
+        while (end < lines.length && lines[end].trim() && !startsMarkdownBlock(lines[end]) && !SETEXT_UNDERLINE_PATTERN.test(lines[end])) {
+            end++;
+        }
+        const text = collapseWhitespace(lines.slice(i, end).join(' '));
+        const underline = end < lines.length ? lines[end].match(SETEXT_UNDERLINE_PATTERN) : null;
+        if (underline) {
+            push({ type: 'heading', level: underline[1][0] === '=' ? 1 : 2, text }, i, end + 1);
+            i = end + 1;
+        } else {
+            push({ type: 'paragraph', text }, i, end);
+            i = end;
+        }
+    }
+    
+    return nodes;
+}
+
+/**
+ * 拆分表格行中的单元格，忽略行首行尾的竖线和转义的竖线
+ */
+function splitTableRow(row: string): string[] {
+    const trimmed = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+/**
+ * 提取节点的属性，去掉内容和位置
+ */
+function toNodeInfo(node: MarkdownNode): MarkdownNodeInfo {
+    const { type, level, lang, ordered, listDepth, quoteDepth } = node;
+    return { type, level, lang, ordered, listDepth, quoteDepth };
+}
+
+/**
+ * 判断两个节点的属性是否相同
+ */
+function isSameNodeInfo(a: MarkdownNodeInfo, b: MarkdownNodeInfo): boolean {
+    return a.type === b.type && a.level === b.level && a.lang === b.lang && a.ordered === b.ordered
+        && a.listDepth === b.listDepth && a.quoteDepth === b.quoteDepth;
+}
+
+/**
+ * 节点树逐层比较的结果：两侧对应的节点（及其子节点的比较结果），或只存在于一侧的子树
+ */
+type MarkdownNodeOp =
+    | { kind: 'pair'; oldNode: MarkdownNode; newNode: MarkdownNode; children: MarkdownNodeOp[] }
+    | { kind: 'removed'; node: MarkdownNode }
+    | { kind: 'added'; node: MarkdownNode };
+
+/**
+ * 移动的节点标签中父节点内容的最大长度
+ */
+const MAX_PARENT_TEXT_LENGTH = 20;
+
+/**
+ * 按 Markdown 节点树计算差异
+ * 从文档根部开始逐层比较子节点序列：以节点类型和规范化内容为键，键相同的节点对应，
+ * 键不同的节点再按内容相似度配对为修改，对应的节点继续比较各自的子节点；
+ * 各层都没有对应的子树中，内容相同或相近的节点视为移动，包括移到其他列表项、引用块下的节点，
+ * 移动的节点标记原父节点和新父节点
+ * 比较在 Worker 中进行，无法使用 Lute，节点树由 parseMarkdownNodes 逐行扫描得到
+ */
+function computeMarkdownTreeDiff(lines1: string[], lines2: string[], options: DiffComputeOptions): { lines: DiffLine[]; moveBlockIds: Map<number, string[]>; blocks: BlockDiff[] } {
+    const oldNodes = parseMarkdownNodes(lines1);
+    const newNodes = parseMarkdownNodes(lines2);
+    
+    // 引用块自身没有内容，以其中各节点的内容比较
+    const subtreeText = (node: MarkdownNode): string => node.type === 'quote'
+        ? node.children.map(subtreeText).join('\n')
+        : node.text;
+    const keys = new Map<MarkdownNode, string>();
+    const nodeKey = (node: MarkdownNode) => {
+        if (!keys.has(node)) {
+            keys.set(node, `${node.type}\u0000${toComparisonKey(subtreeText(node), options)}`);
+        }
+        return keys.get(node);
+    };
+    
+    // 比较两个子节点序列，变更片段中按内容相似度保序配对删除/新增的节点
+    const alignChildren = (oldList: MarkdownNode[], newList: MarkdownNode[]): MarkdownNodeOp[] => {
+        const result: MarkdownNodeOp[] = [];
+        const pair = (oldNode: MarkdownNode, newNode: MarkdownNode) => {
+            result.push({ kind: 'pair', oldNode, newNode, children: alignChildren(oldNode.children, newNode.children) });
+        };
+        const ops = getSequenceDiff(options.algorithm)(oldList.map(nodeKey), newList.map(nodeKey));
+        let k = 0;
+        while (k < ops.length) {
+            if (ops[k].type === 'equal') {
+                pair(oldList[ops[k].oldIndex], newList[ops[k].newIndex]);
+                k++;
+                continue;
+            }
+            
+            const deleted: number[] = [];
+            const inserted: number[] = [];
+            while (k < ops.length && ops[k].type !== 'equal') {
+                if (ops[k].type === 'delete') {
+                    deleted.push(ops[k].oldIndex);
+                } else {
+                    inserted.push(ops[k].newIndex);
+                }
+                k++;
+            }
+            const pairs: Array<[number, number]> = [];
+            if (deleted.length * inserted.length <= MAX_PAIRING_CELLS) {
+                let cursor = 0;
+                for (const oldIndex of deleted) {
+                    for (let m = cursor; m < inserted.length; m++) {
+                        const inline = computeInlineDiff(subtreeText(oldList[oldIndex]), subtreeText(newList[inserted[m]]), options);
+                        if (inline && inline.similarity >= NODE_MIN_SIMILARITY) {
+                            pairs.push([oldIndex, inserted[m]]);
+                            cursor = m + 1;
+                            break;
+                        }
+                    }
+                }
+            }
+            
+            let d = 0;
+            let n = 0;
+            for (const [oldIndex, newIndex] of pairs) {
+                for (; deleted[d] !== oldIndex; d++) {
+                    result.push({ kind: 'removed', node: oldList[deleted[d]] });
+                }
+                for (; inserted[n] !== newIndex; n++) {
+                    result.push({ kind: 'added', node: newList[inserted[n]] });
+                }
+                pair(oldList[oldIndex], newList[newIndex]);
+                d++;
+                n++;
+            }
+            for (; d < deleted.length; d++) {
+                result.push({ kind: 'removed', node: oldList[deleted[d]] });
+            }
+            for (; n < inserted.length; n++) {
+                result.push({ kind: 'added', node: newList[inserted[n]] });
+            }
+        }
+        return result;
+    };
+    const tree = alignChildren(oldNodes.filter(node => !node.parent), newNodes.filter(node => !node.parent));
+    
+    // 收集各层没有对应的子树中的全部节点（先序），跳过没有自身内容的节点
+    const removedNodes: MarkdownNode[] = [];
+    const addedNodes: MarkdownNode[] = [];
+    const collect = (node: MarkdownNode, target: MarkdownNode[]) => {
+        if (node.end > node.start && !isTrivialLine(node.text)) {
+            target.push(node);
+        }
+        node.children.forEach(child => collect(child, target));
+    };
+    const collectOps = (ops: MarkdownNodeOp[]) => {
+        for (const op of ops) {
+            if (op.kind === 'pair') {
+                collectOps(op.children);
+            } else {
+                collect(op.node, op.kind === 'removed' ? removedNodes : addedNodes);
+            }
+        }
+    };
+    collectOps(tree);
+    
+    // 删除和新增的节点中内容相同的配为移动，父节点也在一起移动时优先配给其子节点；其余的再按类型和内容相似度配对
+    const movedTo = new Map<MarkdownNode, MarkdownNode>();
+    const movedFrom = new Map<MarkdownNode, MarkdownNode>();
+    const match = (oldNode: MarkdownNode, newNode: MarkdownNode) => {
+        movedTo.set(oldNode, newNode);
+        movedFrom.set(newNode, oldNode);
+    };
+    const addedByKey = new Map<string, MarkdownNode[]>();
+    for (const node of addedNodes) {
+        const key = nodeKey(node);
+        if (!addedByKey.has(key)) {
+            addedByKey.set(key, []);
+        }
+        addedByKey.get(key).push(node);
+    }
+    for (const oldNode of removedNodes) {
+        const candidates = addedByKey.get(nodeKey(oldNode))?.filter(node => !movedFrom.has(node));
+        if (candidates?.length) {
+            const parentTarget = oldNode.parent && movedTo.get(oldNode.parent);
+            match(oldNode, candidates.find(node => parentTarget && node.parent === parentTarget) ?? candidates[0]);
+        }
+    }
+    const restOld = removedNodes.filter(node => !movedTo.has(node));
+    const restNew = addedNodes.filter(node => !movedFrom.has(node));
+    if (restOld.length * restNew.length <= MAX_PAIRING_CELLS) {
+        for (const oldNode of restOld) {
+            let best: MarkdownNode | undefined;
+            let bestSimilarity = NODE_MIN_SIMILARITY;
+            for (const newNode of restNew) {
+                if (newNode.type !== oldNode.type || movedFrom.has(newNode)) {
+                    continue;
+                }
+                const inline = computeInlineDiff(oldNode.text, newNode.text, options);
+                if (inline && inline.similarity >= bestSimilarity) {
+                    best = newNode;
+                    bestSimilarity = inline.similarity;
+                }
+            }
+            if (best) {
+                match(oldNode, best);
+            }
+        }
+    }
+    
+    // 和父节点一起移动的节点沿用父节点的移动块编号
+    const moveIds = new Map<MarkdownNode, number>();
+    let nextMoveId = 1;
+    for (const oldNode of removedNodes) {
+        const newNode = movedTo.get(oldNode);
+        if (!newNode) {
+            continue;
+        }
+        const withParent = oldNode.parent && newNode.parent && movedTo.get(oldNode.parent) === newNode.parent;
+        moveIds.set(oldNode, withParent ? moveIds.get(oldNode.parent) : nextMoveId++);
+    }
+    
+    const result: DiffLine[] = [];
+    const blocks: BlockDiff[] = [];
+    let nextOld = 0;
+    let nextNew = 0;
+    
+    // 输出节点之间的空行等未归入节点的行：两侧都有时成对显示
+    const flushGap = (oldLimit: number, newLimit: number) => {
+        while (nextOld < oldLimit || nextNew < newLimit) {
+            const hasOld = nextOld < oldLimit;
+            const hasNew = nextNew < newLimit;
+            result.push({
+                type: 'context',
+                oldLineNumber: hasOld ? nextOld + 1 : undefined,
+                newLineNumber: hasNew ? nextNew + 1 : undefined,
+                content: hasOld ? lines1[nextOld] : lines2[nextNew]
+            });
+            if (hasOld) nextOld++;
+            if (hasNew) nextNew++;
+        }
+    };
+    
+    // 节点自身的行按行比较，行号换算为文档中的行号
+    const diffNodeLines = (oldNode: MarkdownNode, newNode: MarkdownNode) => {
+        const lines = pairModifiedLines(computeLineDiff(lines1.slice(oldNode.start, oldNode.end), lines2.slice(newNode.start, newNode.end), options), options);
+        for (const line of lines) {
+            if (line.oldLineNumber !== undefined) {
+                line.oldLineNumber += oldNode.start;
+            }
+            if (line.newLineNumber !== undefined) {
+                line.newLineNumber += newNode.start;
+            }
+        }
+        return lines;
+    };
+    
+    // 节点属性附带父节点第一行的开头，用于标记移到其他父节点下的节点
+    const movedNodeInfo = (node: MarkdownNode, source: string[]): MarkdownNodeInfo => {
+        const parentLine = node.parent ? source[node.parent.start].trim() : '';
+        const parentText = parentLine.length > MAX_PARENT_TEXT_LENGTH ? `${parentLine.slice(0, MAX_PARENT_TEXT_LENGTH)}…` : parentLine;
+        return { ...toNodeInfo(node), parentText };
+    };
+    
+    // 输出移动节点一端的行；节点内有修改的行附带行内差异
+    const emitMoved = (oldNode: MarkdownNode, newNode: MarkdownNode, side: 'from' | 'to') => {
+        if (side === 'from') {
+            flushGap(oldNode.start, nextNew);
+        } else {
+            flushGap(nextOld, newNode.start);
+            blocks.push({ status: 'moved', oldStart: oldNode.start + 1, newStart: newNode.start + 1, startIndex: result.length });
+        }
+        const moveId = moveIds.get(oldNode);
+        const lines: DiffLine[] = [];
+        for (const line of diffNodeLines(oldNode, newNode)) {
+            const hasSide = side === 'from' ? line.oldLineNumber !== undefined : line.newLineNumber !== undefined;
+            if (!hasSide) {
+                continue;
+            }
+            const modified = line.type === 'modified';
+            lines.push({
+                type: side === 'from' ? 'moved-from' : 'moved-to',
+                oldLineNumber: side === 'from' ? line.oldLineNumber : undefined,
+                newLineNumber: side === 'to' ? line.newLineNumber : undefined,
+                content: side === 'from' && modified ? line.oldContent : line.content,
+                fragments: modified ? (side === 'from' ? line.oldFragments : line.fragments) : undefined,
+                moveId
+            });
+        }
+        lines[0].blockStatus = 'moved';
+        lines[0].nodeLabel = side === 'from'
+            ? { node: toNodeInfo(oldNode) }
+            : { node: movedNodeInfo(newNode, lines2), previous: movedNodeInfo(oldNode, lines1) };
+        result.push(...lines);
+        if (side === 'from') {
+            nextOld = oldNode.end;
+        } else {
+            nextNew = newNode.end;
+        }
+    };
+    
+    // 输出只存在于一侧的节点，移动的节点输出对应的一端
+    const emitNode = (node: MarkdownNode, type: 'removed' | 'added') => {
+        if (node.end === node.start) {
+            return;
+        }
+        if (type === 'removed' && movedTo.has(node)) {
+            emitMoved(node, movedTo.get(node), 'from');
+            return;
+        }
+        if (type === 'added' && movedFrom.has(node)) {
+            emitMoved(movedFrom.get(node), node, 'to');
+            return;
+        }
+        
+        if (type === 'removed') {
+            flushGap(node.start, nextNew);
+        } else {
+            flushGap(nextOld, node.start);
+        }
+        const status: BlockDiffStatus = type === 'removed' ? 'deleted' : 'inserted';
+        blocks.push({
+            status,
+            oldStart: type === 'removed' ? node.start + 1 : undefined,
+            newStart: type === 'added' ? node.start + 1 : undefined,
+            startIndex: result.length
+        });
+        const source = type === 'removed' ? lines1 : lines2;
+        for (let k = node.start; k < node.end; k++) {
+            result.push({
+                type,
+                oldLineNumber: type === 'removed' ? k + 1 : undefined,
+                newLineNumber: type === 'added' ? k + 1 : undefined,
+                content: source[k]
+            });
+        }
+        result[result.length - (node.end - node.start)].blockStatus = status;
+        result[result.length - (node.end - node.start)].nodeLabel = { node: toNodeInfo(node) };
+        if (type === 'removed') {
+            nextOld = node.end;
+        } else {
+            nextNew = node.end;
+        }
+    };
+    const emitSubtree = (node: MarkdownNode, type: 'removed' | 'added') => {
+        emitNode(node, type);
+        node.children.forEach(child => emitSubtree(child, type));
+    };
+    
+    // 输出两侧对应的节点自身的行：内容和属性都相同时为未更改，否则在节点内按行比较
+    const emitPair = (oldNode: MarkdownNode, newNode: MarkdownNode) => {
+        flushGap(oldNode.start, newNode.start);
+        if (oldNode.end === oldNode.start && newNode.end === newNode.start) {
+            return;
+        }
+        const unchanged = nodeKey(oldNode) === nodeKey(newNode) && isSameNodeInfo(oldNode, newNode);
+        blocks.push({
+            status: unchanged ? 'unchanged' : 'edited',
+            oldStart: oldNode.start + 1,
+            newStart: newNode.start + 1,
+            startIndex: result.length
+        });
+        
+        if (unchanged) {
+            // 只是缩进或换行位置不同时逐行对齐显示，两侧都有的行显示新文档的文本，文本不同时另记旧文本
+            const length = Math.max(oldNode.end - oldNode.start, newNode.end - newNode.start);
+            for (let k = 0; k < length; k++) {
+                const oldIndex = oldNode.start + k < oldNode.end ? oldNode.start + k : undefined;
+                const newIndex = newNode.start + k < newNode.end ? newNode.start + k : undefined;
+                const oldText = oldIndex !== undefined ? lines1[oldIndex] : undefined;
+                const newText = newIndex !== undefined ? lines2[newIndex] : undefined;
+                result.push({
+                    type: 'context',
+                    oldLineNumber: oldIndex !== undefined ? oldIndex + 1 : undefined,
+                    newLineNumber: newIndex !== undefined ? newIndex + 1 : undefined,
+                    content: newText ?? oldText,
+                    oldContent: oldText !== undefined && newText !== undefined && oldText !== newText ? oldText : undefined
+                });
+            }
+        } else {
+            const inner = diffNodeLines(oldNode, newNode);
+            if (inner.length > 0) {
+                inner[0].blockStatus = 'edited';
+                inner[0].nodeLabel = { node: toNodeInfo(newNode), previous: toNodeInfo(oldNode) };
+            }
+            result.push(...inner);
+        }
+        nextOld = oldNode.end;
+        nextNew = newNode.end;
+    };
+    
+    const emitOps = (ops: MarkdownNodeOp[]) => {
+        for (const op of ops) {
+            if (op.kind === 'pair') {
+                emitPair(op.oldNode, op.newNode);
+                emitOps(op.children);
+            } else {
+                emitSubtree(op.node, op.kind);
+            }
+        }
+    };
+    emitOps(tree);
+    flushGap(lines1.length, lines2.length);
+    
+    return { lines: result, moveBlockIds: new Map(), blocks };
+}
+
+/**
+ * 查找文档中的 Markdown 表格，返回 [start, end) 行下标范围，跳过代码块中的内容
+ */
+function findMarkdownTables(lines: string[]): Array<{ start: number; end: number }> {
+    const tables: Array<{ start: number; end: number }> = [];
+    let fence: string | null = null;
+    let i = 0;
+    while (i < lines.length) {
+        const fenceMatch = lines[i].match(FENCE_PATTERN);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[2][0];
+            } else if (lines[i].trim().startsWith(fence)) {
+                fence = null;
+            }
+            i++;
+            continue;
+        }
+        if (!fence && lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+            let end = i + 2;
+            while (end < lines.length && lines[end].trim() && lines[end].includes('|')) {
+                end++;
+            }
+            tables.push({ start: i, end });
+            i = end;
+            continue;
+        }
+        i++;
+    }
+    return tables;
+}
+
+/**
+ * 解析表格分隔行中各列的对齐方式
+ */
+function parseTableAlignments(delimiter: string): Array<TableColumnDiff['align']> {
+    return splitTableRow(delimiter).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : undefined;
+    });
+}
+
+/**
+ * 比较两侧对应的表格单元格
+ */
+function diffTableCell(oldText: string | undefined, newText: string | undefined, options: DiffCompareOptions): TableCellDiff {
+    if (oldText === undefined) {
+        return { status: 'added', newText };
+    }
+    if (newText === undefined) {
+        return { status: 'removed', oldText };
+    }
+    if (toComparisonKey(oldText, options) === toComparisonKey(newText, options)) {
+        return { status: 'equal', oldText, newText };
+    }
+    const inline = computeInlineDiff(oldText, newText, options);
+    return {
+        status: 'changed',
+        oldText,
+        newText,
+        oldFragments: inline?.oldFragments,
+        newFragments: inline?.newFragments
+    };
+}
+
+/**
+ * 比较两侧对应的表格行，单元格按列的对应关系逐一比较
+ */
+function diffTableRow(columns: TableColumnDiff[], oldCells: string[] | undefined, newCells: string[] | undefined, options: DiffCompareOptions): TableRowDiff {
+    const cells = columns.map(column => {
+        const oldText = oldCells && column.oldIndex !== undefined ? oldCells[column.oldIndex] ?? '' : undefined;
+        const newText = newCells && column.newIndex !== undefined ? newCells[column.newIndex] ?? '' : undefined;
+        if (oldText === undefined && newText === undefined) {
+            return { status: column.status === 'added' ? 'added' : 'removed' } as TableCellDiff;
+        }
+        return diffTableCell(oldText, newText, options);
+    });
+    
+    let status: TableCellStatus;
+    if (!oldCells) {
+        status = 'added';
+    } else if (!newCells) {
+        status = 'removed';
+    } else {
+        status = cells.every(cell => cell.status === 'equal') ? 'equal' : 'changed';
+    }
+    return { status, cells };
+}
+
+/**
+ * 保序地对应两组元素：先按键做 Myers 比较，变更片段中的删除/新增元素按位置配对
+ * 返回 [旧下标, 新下标] 序列，只存在于一侧的元素另一侧为 undefined
+ */
+function alignSequences(oldKeys: string[], newKeys: string[]): Array<[number | undefined, number | undefined]> {
+    const aligned: Array<[number | undefined, number | undefined]> = [];
+    const ops = myersDiff(oldKeys, newKeys);
+    let k = 0;
+    while (k < ops.length) {
+        if (ops[k].type === 'equal') {
+            aligned.push([ops[k].oldIndex, ops[k].newIndex]);
+            k++;
+            continue;
+        }
+        const deleted: number[] = [];
+        const inserted: number[] = [];
+        while (k < ops.length && ops[k].type !== 'equal') {
+            if (ops[k].type === 'delete') {
+                deleted.push(ops[k].oldIndex);
+            } else {
+                inserted.push(ops[k].newIndex);
+            }
+            k++;
+        }
+        const pairCount = Math.min(deleted.length, inserted.length);
+        for (let m = 0; m < pairCount; m++) {
+            aligned.push([deleted[m], inserted[m]]);
+        }
+        for (let m = pairCount; m < deleted.length; m++) {
+            aligned.push([deleted[m], undefined]);
+        }
+        for (let m = pairCount; m < inserted.length; m++) {
+            aligned.push([undefined, inserted[m]]);
+        }
+    }
+    return aligned;
+}
+
+/**
+ * 对两侧对应的表格做单元格级比较
+ * 两个表格对应的条件是差异结果中有行同时落在这两个表格内，且表格的行在结果中连续
+ */
+function computeTableDiffs(diff: DiffLine[], lines1: string[], lines2: string[], options: DiffComputeOptions): TableDiff[] {
+    const oldTables = findMarkdownTables(lines1);
+    const newTables = findMarkdownTables(lines2);
+    if (oldTables.length === 0 || newTables.length === 0) {
+        return [];
+    }
+    
+    // 行号到所在表格的映射
+    const oldTableOf = new Int32Array(lines1.length + 1).fill(-1);
+    const newTableOf = new Int32Array(lines2.length + 1).fill(-1);
+    oldTables.forEach((table, index) => oldTableOf.fill(index, table.start + 1, table.end + 1));
+    newTables.forEach((table, index) => newTableOf.fill(index, table.start + 1, table.end + 1));
+    const inOld = (line: DiffLine, table: number) => line.oldLineNumber !== undefined && oldTableOf[line.oldLineNumber] === table;
+    const inNew = (line: DiffLine, table: number) => line.newLineNumber !== undefined && newTableOf[line.newLineNumber] === table;
+    
+    const result: TableDiff[] = [];
+    const pairedOld = new Set<number>();
+    for (let i = 0; i < diff.length; i++) {
+        const line = diff[i];
+        if (line.oldLineNumber === undefined || line.newLineNumber === undefined) {
+            continue;
+        }
+        const oldIndex = oldTableOf[line.oldLineNumber];
+        const newIndex = newTableOf[line.newLineNumber];
+        if (oldIndex < 0 || newIndex < 0 || pairedOld.has(oldIndex)) {
+            continue;
+        }
+        pairedOld.add(oldIndex);
+        
+        // 表格在结果中的范围必须连续且只包含这两个表格的行
+        let startIndex = i;
+        while (startIndex > 0 && (inOld(diff[startIndex - 1], oldIndex) || inNew(diff[startIndex - 1], newIndex))) {
+            startIndex--;
+        }
+        let endIndex = i + 1;
+        while (endIndex < diff.length && (inOld(diff[endIndex], oldIndex) || inNew(diff[endIndex], newIndex))) {
+            endIndex++;
+        }
+        const oldTable = oldTables[oldIndex];
+        const newTable = newTables[newIndex];
+        const covered = diff.slice(startIndex, endIndex);
+        const oldCount = covered.filter(item => inOld(item, oldIndex)).length;
+        const newCount = covered.filter(item => inNew(item, newIndex)).length;
+        if (oldCount !== oldTable.end - oldTable.start || newCount !== newTable.end - newTable.start) {
+            continue;
+        }
+        if (covered.every(item => item.type === 'context')) {
+            continue;
+        }
+        
+        const oldRows = lines1.slice(oldTable.start, oldTable.end);
+        const newRows = lines2.slice(newTable.start, newTable.end);
+        const oldHeader = splitTableRow(oldRows[0]);
+        const newHeader = splitTableRow(newRows[0]);
+        const oldAligns = parseTableAlignments(oldRows[1]);
+        const newAligns = parseTableAlignments(newRows[1]);
+        
+        // 列按表头对应，改名的列按位置对应
+        const columns: TableColumnDiff[] = alignSequences(
+            oldHeader.map(cell => toComparisonKey(cell, options)),
+            newHeader.map(cell => toComparisonKey(cell, options))
+        ).map(([oldColumn, newColumn]) => ({
+            status: oldColumn === undefined ? 'added' : newColumn === undefined ? 'removed' : 'equal',
+            oldIndex: oldColumn,
+            newIndex: newColumn,
+            align: newColumn !== undefined ? newAligns[newColumn] : oldAligns[oldColumn]
+        }));
+        
+        // 数据行按两侧共有列的内容对应，修改的行按位置对应
+        const oldBody = oldRows.slice(2).map(splitTableRow);
+        const newBody = newRows.slice(2).map(splitTableRow);
+        const sharedColumns = columns.filter(column => column.status === 'equal');
+        const rowKey = (cells: string[], side: 'oldIndex' | 'newIndex') => sharedColumns
+            .map(column => toComparisonKey(cells[column[side]!] ?? '', options))
+            .join('\u0000');
+        const rows = alignSequences(oldBody.map(cells => rowKey(cells, 'oldIndex')), newBody.map(cells => rowKey(cells, 'newIndex'))).map(([oldRow, newRow]) => {
+            const row = diffTableRow(columns, oldRow !== undefined ? oldBody[oldRow] : undefined, newRow !== undefined ? newBody[newRow] : undefined, options);
+            row.oldLineNumber = oldRow !== undefined ? oldTable.start + oldRow + 3 : undefined;
+            row.newLineNumber = newRow !== undefined ? newTable.start + newRow + 3 : undefined;
+            return row;
+        });
+        const header = diffTableRow(columns, oldHeader, newHeader, options);
+        header.oldLineNumber = oldTable.start + 1;
+        header.newLineNumber = newTable.start + 1;
+        
+        result.push({
+            startIndex,
+            endIndex,
+            oldStart: oldTable.start + 1,
+            oldLines: oldTable.end - oldTable.start,
+            newStart: newTable.start + 1,
+            newLines: newTable.end - newTable.start,
+            columns,
+            header,
+            rows
+        });
+        i = endIndex - 1;
+    }
+    
+    return result;
+}
+
+/**
+ * 变更块中按相似度配对时最多计算的行对数，超过时按位置配对
+ */
+const MAX_PAIRING_CELLS = 400;
+
+/**
+ * 将变更块中相似的删除/新增行配对为 modified 行
+ */
+function pairModifiedLines(diff: DiffLine[], options: DiffCompareOptions = {}): DiffLine[] {
+    const result: DiffLine[] = [];
+    let i = 0;
+    while (i < diff.length) {
+        if (diff[i].type !== 'removed' && diff[i].type !== 'added') {
+            result.push(diff[i]);
+            i++;
+            continue;
+        }
+        
+        // 收集连续的删除/新增行，移动行和上下文行都会分隔变更块
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (i < diff.length && (diff[i].type === 'removed' || diff[i].type === 'added')) {
+            if (diff[i].type === 'removed') {
+                removed.push(diff[i]);
+            } else {
+                added.push(diff[i]);
+            }
+            i++;
+        }
+        
+        result.push(...pairChangeBlock(removed, added, options));
+    }
+    return result;
+}
+
+/**
+ * 对一个变更块中的删除/新增行做保序配对
+ * 行对数较少时用动态规划求相似度之和最大的配对；否则第 k 个删除行与第 k 个新增行配对
+ * 配对成功的行合并为 modified 行，其余行按原顺序保留在其前后
+ * 比较时相同的两个非空行还原为上下文行；语义整理时并入的行不参与配对，保留在变更块中
+ */
+function pairChangeBlock(removed: DiffLine[], added: DiffLine[], options: DiffCompareOptions): DiffLine[] {
+    type LinePair = { similarity: number; inline: ReturnType<typeof computeInlineDiff> };
+    const pairs: Array<{ r: number; a: number; inline: LinePair['inline'] }> = [];
+    
+    // 配对两行，相同的行 inline 为 null，不能配对时返回 null
+    const matchLines = (rem: DiffLine, add: DiffLine): LinePair | null => {
+        if (rem.absorbed || add.absorbed) {
+            return null;
+        }
+        if (!isTrivialLine(rem.content) && toComparisonKey(rem.content, options) === toComparisonKey(add.content, options)) {
+            return { similarity: 1, inline: null };
+        }
+        const inline = computeInlineDiff(rem.content, add.content, options);
+        return inline ? { similarity: inline.similarity, inline } : null;
+    };
+    
+    if (removed.length * added.length <= MAX_PAIRING_CELLS) {
+        const inline: Array<Array<LinePair | null>> = removed.map(rem => added.map(add => matchLines(rem, add)));
+        // score[r][a]：前 r 个删除行与前 a 个新增行配对的最大相似度之和
+        const score = Array.from({ length: removed.length + 1 }, () => new Array<number>(added.length + 1).fill(0));
+        for (let r = 1; r <= removed.length; r++) {
+            for (let a = 1; a <= added.length; a++) {
+                const paired = inline[r - 1][a - 1];
+                score[r][a] = Math.max(
+                    score[r - 1][a],
+                    score[r][a - 1],
+                    paired ? score[r - 1][a - 1] + paired.similarity : 0
+                );
+            }
+        }
+        
+        let r = removed.length;
+        let a = added.length;
+        while (r > 0 && a > 0) {
+            const paired = inline[r - 1][a - 1];
+            if (paired && score[r][a] === score[r - 1][a - 1] + paired.similarity) {
+                pairs.unshift({ r: r - 1, a: a - 1, inline: paired.inline });
+                r--;
+                a--;
+            } else if (score[r][a] === score[r - 1][a]) {
+                r--;
+            } else {
+                a--;
+            }
+        }
+    } else {
+        const pairCount = Math.min(removed.length, added.length);
+        for (let k = 0; k < pairCount; k++) {
+            const paired = matchLines(removed[k], added[k]);
+            if (paired) {
+                pairs.push({ r: k, a: k, inline: paired.inline });
+            }
+        }
+    }
+    
+    const block: DiffLine[] = [];
+    let nextRemoved = 0;
+    let nextAdded = 0;
+    for (const pair of pairs) {
+        block.push(...removed.slice(nextRemoved, pair.r), ...added.slice(nextAdded, pair.a));
+        const rem = removed[pair.r];
+        const add = added[pair.a];
+        nextRemoved = pair.r + 1;
+        nextAdded = pair.a + 1;
+        if (!pair.inline) {
+            block.push({
+                type: 'context',
+                oldLineNumber: rem.oldLineNumber,
+                newLineNumber: add.newLineNumber,
+                content: rem.content,
+                isIdLine: rem.isIdLine
+            });
+            continue;
+        }
+        block.push({
+            type: 'modified',
+            oldLineNumber: rem.oldLineNumber,
+            newLineNumber: add.newLineNumber,
+            content: add.content,
+            oldContent: rem.content,
+            isIdLine: rem.isIdLine || add.isIdLine,
+            fragments: pair.inline.newFragments,
+            oldFragments: pair.inline.oldFragments
+        });
+    }
+    block.push(...removed.slice(nextRemoved), ...added.slice(nextAdded));
+    return block;
+}
+
+/**
+ * 行内差异的最低相似度，低于此值视为整行替换，不做行内高亮
+ */
+const INLINE_DIFF_MIN_SIMILARITY = 0.3;
+
+/**
+ * CJK 字符范围：CJK 标点、假名、统一表意文字（含扩展A）、谚文、兼容表意文字及全角字符
+ */
+const CJK_RANGE = '\\u3000-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff\\uff00-\\uffef';
+const CJK_RUN_PATTERN = new RegExp(`[${CJK_RANGE}]+|[^${CJK_RANGE}]+`, 'g');
+const CJK_CHAR_PATTERN = new RegExp(`^[${CJK_RANGE}]`);
+
+// 分词器实例，undefined 表示尚未初始化，null 表示当前环境不支持 Intl.Segmenter
+let cjkSegmenter: { segment(input: string): Iterable<{ segment: string }> } | null | undefined;
+
+/**
+ * 获取中文分词器（按词切分）
+ */
+function getCjkSegmenter() {
+    if (cjkSegmenter === undefined) {
+        const Segmenter = (Intl as any).Segmenter;
+        try {
+            cjkSegmenter = typeof Segmenter === 'function' ? new Segmenter('zh', { granularity: 'word' }) : null;
+        } catch (error) {
+            console.warn('Intl.Segmenter 不可用，CJK 文本将按字符切分:', error);
+            cjkSegmenter = null;
+        }
+    }
+    return cjkSegmenter;
+}
+
+/**
+ * 切分 CJK 文本：优先用 Intl.Segmenter 按词切分，不支持时逐字符切分
+ */
+function segmentCjkRun(run: string): string[] {
+    const segmenter = getCjkSegmenter();
+    if (segmenter) {
+        return Array.from(segmenter.segment(run), item => item.segment);
+    }
+    return Array.from(run);
+}
+
+/**
+ * 切分非 CJK 文本为词、空白和单个标点
+ */
+function segmentLatinRun(run: string): string[] {
+    return run.match(/[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu) || [];
+}
+
+/**
+ * 将文本切分为用于行内差异比较的词元
+ * 中英文混排时按 CJK / 非 CJK 分段，分别使用对应的切分方式
+ */
+export function tokenizeText(text: string): string[] {
+    const tokens: string[] = [];
+    const runs = text.match(CJK_RUN_PATTERN) || [];
+    for (const run of runs) {
+        const segments = CJK_CHAR_PATTERN.test(run) ? segmentCjkRun(run) : segmentLatinRun(run);
+        for (const segment of segments) {
+            tokens.push(segment);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * 计算两行文本的词级差异及相似度
+ * 两行差异过大时返回 null
+ */
+function computeInlineDiff(oldText: string, newText: string, options: DiffCompareOptions = {}): { oldFragments: InlineFragment[]; newFragments: InlineFragment[]; similarity: number } | null {
+    if (oldText === newText || !oldText.trim() || !newText.trim()) {
+        return null;
+    }
+    
+    const oldTokens = tokenizeText(oldText);
+    const newTokens = tokenizeText(newText);
+    // 词元同样按比较选项归一化，被忽略的差异不做高亮
+    const ops = myersDiff(
+        oldTokens.map(token => toComparisonKey(token, options)),
+        newTokens.map(token => toComparisonKey(token, options))
+    );
+    
+    let equalLength = 0;
+    for (const op of ops) {
+        if (op.type === 'equal') {
+            equalLength += oldTokens[op.oldIndex].length;
+        }
+    }
+    const similarity = (2 * equalLength) / (oldText.length + newText.length);
+    if (similarity < INLINE_DIFF_MIN_SIMILARITY) {
+        return null;
+    }
+    
+    const oldFragments: InlineFragment[] = [];
+    const newFragments: InlineFragment[] = [];
+    for (const op of ops) {
+        if (op.type === 'equal') {
+            pushFragment(oldFragments, 'equal', oldTokens[op.oldIndex]);
+            pushFragment(newFragments, 'equal', newTokens[op.newIndex]);
+        } else if (op.type === 'delete') {
+            pushFragment(oldFragments, 'removed', oldTokens[op.oldIndex]);
+        } else {
+            pushFragment(newFragments, 'added', newTokens[op.newIndex]);
+        }
+    }
+    
+    return {
+        oldFragments: absorbWhitespaceFragments(oldFragments),
+        newFragments: absorbWhitespaceFragments(newFragments),
+        similarity
+    };
+}
+
+/**
+ * 追加片段，与前一个同类型片段合并
+ */
+function pushFragment(fragments: InlineFragment[], type: InlineFragment['type'], text: string): void {
+    const last = fragments[fragments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        fragments.push({ type, text });
+    }
+}
+
+/**
+ * 夹在两个变更片段之间的纯空白片段并入变更，避免高亮被空格打碎
+ */
+function absorbWhitespaceFragments(fragments: InlineFragment[]): InlineFragment[] {
+    const result: InlineFragment[] = [];
+    for (let i = 0; i < fragments.length; i++) {
+        const fragment = fragments[i];
+        const prev = result[result.length - 1];
+        const next = fragments[i + 1];
+        if (fragment.type === 'equal' && prev && next && prev.type !== 'equal' && prev.type === next.type && !fragment.text.trim()) {
+            prev.text += fragment.text + next.text;
+            i++;
+            continue;
+        }
+        if (prev && prev.type === fragment.type) {
+            prev.text += fragment.text;
+        } else {
+            result.push({ ...fragment });
+        }
+    }
+    return result;
+}
+
+/**
+ * 编辑脚本中的单个操作
+ * delete 时 newIndex 为删除发生的位置，insert 时 oldIndex 为插入发生的位置
+ */
+interface EditOp {
+    type: 'equal' | 'delete' | 'insert';
+    oldIndex: number;
+    newIndex: number;
+    absorbed?: boolean;  // 语义整理时并入变更块的相同项
+}
+
+/**
+ * Myers 算法查找中间蛇形时编辑距离的最小上限
+ */
+const MIN_MYERS_COST_LIMIT = 4096;
+
+/**
+ * Myers O(ND) 差异算法（线性空间版本）
+ * 通过"中间蛇形"递归地将问题一分为二（Hirschberg 思路），
+ * 内存占用为 O(M+N)，不再需要 (m+1)×(n+1) 的DP表
+ * 差异很大时限制每次查找的步数（与 GNU diff 相同），超出后在已到达的最远位置拆分，结果不一定最短
+ */
+function myersDiff(arr1: string[], arr2: string[]): EditOp[] {
+    // 将字符串映射为整数，比较时只需比较数字
+    const ids = new Map<string, number>();
+    const toId = (value: string): number => {
+        let id = ids.get(value);
+        if (id === undefined) {
+            id = ids.size;
+            ids.set(value, id);
+        }
+        return id;
+    };
+    const xv = Int32Array.from(arr1, toId);
+    const yv = Int32Array.from(arr2, toId);
+    const m = xv.length;
+    const n = yv.length;
+    
+    // matchOf[x] = 与旧序列第x项匹配的新序列下标，-1 表示未匹配
+    const matchOf = new Int32Array(m).fill(-1);
+    
+    // 前向/后向的对角线数组，对角线 k = x - y 的取值范围为 [-n-1, m+1]
+    const offset = n + 1;
+    const fd = new Int32Array(m + n + 3);
+    const bd = new Int32Array(m + n + 3);
+    
+    // 查找步数上限约为 √(M+N)，且不小于 MIN_MYERS_COST_LIMIT
+    let costLimit = 1;
+    for (let diagonals = m + n + 3; diagonals !== 0; diagonals >>= 2) {
+        costLimit <<= 1;
+    }
+    costLimit = Math.max(MIN_MYERS_COST_LIMIT, costLimit);
+    
+    /**
+     * 查找中间蛇形，返回最优路径上的一个分割点
+     * 步数超过上限时返回前向或后向搜索中前进最远的点
+     */
+    const findSplit = (xoff: number, xlim: number, yoff: number, ylim: number): [number, number] => {
+        const dmin = xoff - ylim;
+        const dmax = xlim - yoff;
+        const fmid = xoff - yoff;
+        const bmid = xlim - ylim;
+        const odd = ((fmid - bmid) & 1) !== 0;
+        let fmin = fmid, fmax = fmid;
+        let bmin = bmid, bmax = bmid;
+        
+        fd[offset + fmid] = xoff;
+        bd[offset + bmid] = xlim;
+        
+        for (let cost = 1; ; cost++) {
+            // 前向扩展一步
+            if (fmin > dmin) {
+                fd[offset + --fmin - 1] = -1;
+            } else {
+                ++fmin;
+            }
+            if (fmax < dmax) {
+                fd[offset + ++fmax + 1] = -1;
+            } else {
+                --fmax;
+            }
+            for (let d = fmax; d >= fmin; d -= 2) {
+                const tlo = fd[offset + d - 1];
+                const thi = fd[offset + d + 1];
+                let x = tlo >= thi ? tlo + 1 : thi;
+                let y = x - d;
+                while (x < xlim && y < ylim && xv[x] === yv[y]) {
+                    x++;
+                    y++;
+                }
+                fd[offset + d] = x;
+                if (odd && bmin <= d && d <= bmax && bd[offset + d] <= x) {
+                    return [x, y];
+                }
+            }
+            
+            // 后向扩展一步
+            if (bmin > dmin) {
+                bd[offset + --bmin - 1] = 0x7fffffff;
+            } else {
+                ++bmin;
+            }
+            if (bmax < dmax) {
+                bd[offset + ++bmax + 1] = 0x7fffffff;
+            } else {
+                --bmax;
+            }
+            for (let d = bmax; d >= bmin; d -= 2) {
+                const tlo = bd[offset + d - 1];
+                const thi = bd[offset + d + 1];
+                let x = tlo < thi ? tlo : thi - 1;
+                let y = x - d;
+                while (x > xoff && y > yoff && xv[x - 1] === yv[y - 1]) {
+                    x--;
+                    y--;
+                }
+                bd[offset + d] = x;
+                if (!odd && fmin <= d && d <= fmax && x <= fd[offset + d]) {
+                    return [x, y];
+                }
+            }
+            
+            if (cost < costLimit) {
+                continue;
+            }
+            // 代价过高：分别取前向路径 x+y 最大、后向路径 x+y 最小的点，选离各自起点更远的一个
+            let forwardBest = -1;
+            let forwardX = xoff;
+            for (let d = fmax; d >= fmin; d -= 2) {
+                let x = Math.min(fd[offset + d], xlim);
+                let y = x - d;
+                if (y > ylim) {
+                    x = ylim + d;
+                    y = ylim;
+                }
+                if (x + y > forwardBest) {
+                    forwardBest = x + y;
+                    forwardX = x;
+                }
+            }
+            let backwardBest = 0x7fffffff;
+            let backwardX = xlim;
+            for (let d = bmax; d >= bmin; d -= 2) {
+                let x = Math.max(xoff, bd[offset + d]);
+                let y = x - d;
+                if (y < yoff) {
+                    x = yoff + d;
+                    y = yoff;
+                }
+                if (x + y < backwardBest) {
+                    backwardBest = x + y;
+                    backwardX = x;
+                }
+            }
+            return (xlim + ylim) - backwardBest < forwardBest - (xoff + yoff)
+                ? [forwardX, forwardBest - forwardX]
+                : [backwardX, backwardBest - backwardX];
+        }
+    };
+    
+    /**
+     * 递归比较 [xoff, xlim) 与 [yoff, ylim) 两个区间
+     */
+    const compareRange = (xoff: number, xlim: number, yoff: number, ylim: number): void => {
+        // 跳过公共前缀
+        while (xoff < xlim && yoff < ylim && xv[xoff] === yv[yoff]) {
+            matchOf[xoff++] = yoff++;
+        }
+        // 跳过公共后缀
+        while (xlim > xoff && ylim > yoff && xv[xlim - 1] === yv[ylim - 1]) {
+            matchOf[--xlim] = --ylim;
+        }
+        
+        // 只剩纯删除或纯新增时无需继续拆分
+        if (xoff === xlim || yoff === ylim) {
+            return;
+        }
+        
+        const [xmid, ymid] = findSplit(xoff, xlim, yoff, ylim);
+        compareRange(xoff, xmid, yoff, ymid);
+        compareRange(xmid, xlim, ymid, ylim);
+    };
+    
+    compareRange(0, m, 0, n);
+    
+    return toEditScript(matchOf, n);
+}
+
+/**
+ * 根据匹配关系生成编辑脚本，同一变更块中删除在前、新增在后
+ * matchOf[x] 为旧序列第 x 项匹配的新序列下标，-1 表示未匹配；匹配关系必须保序
+ */
+function toEditScript(matchOf: Int32Array, n: number): EditOp[] {
+    const m = matchOf.length;
+    const ops: EditOp[] = [];
+    let i = 0, j = 0;
+    while (i < m || j < n) {
+        if (i < m && matchOf[i] === j) {
+            ops.push({ type: 'equal', oldIndex: i++, newIndex: j++ });
+        } else if (i < m && matchOf[i] === -1) {
+            ops.push({ type: 'delete', oldIndex: i++, newIndex: j });
+        } else {
+            ops.push({ type: 'insert', oldIndex: i, newIndex: j++ });
+        }
+    }
+    return ops;
+}
+
+/**
+ * 序列差异算法：输入两组比较键，输出编辑脚本
+ */
+type SequenceDiff = (arr1: string[], arr2: string[]) => EditOp[];
+
+/**
+ * 锚点查找函数：在 [xoff, xlim) 与 [yoff, ylim) 中选出一组保序的 [旧下标, 新下标] 锚点
+ */
+type AnchorFinder = (xv: Int32Array, yv: Int32Array, xoff: number, xlim: number, yoff: number, ylim: number) => Array<[number, number]>;
+
+/**
+ * 锚点分治：区间内先选出锚点，锚点之间的子区间继续分治，找不到锚点的区间交给 Myers
+ * 使用显式栈，避免长文档中递归过深
+ */
+function anchoredDiff(arr1: string[], arr2: string[], findAnchors: AnchorFinder): EditOp[] {
+    const ids = new Map<string, number>();
+    const toId = (value: string): number => {
+        let id = ids.get(value);
+        if (id === undefined) {
+            id = ids.size;
+            ids.set(value, id);
+        }
+        return id;
+    };
+    const xv = Int32Array.from(arr1, toId);
+    const yv = Int32Array.from(arr2, toId);
+    const matchOf = new Int32Array(xv.length).fill(-1);
+    
+    const stack: Array<[number, number, number, number]> = [[0, xv.length, 0, yv.length]];
+    while (stack.length > 0) {
+        let [xoff, xlim, yoff, ylim] = stack.pop()!;
+        // 跳过公共前缀和公共后缀
+        while (xoff < xlim && yoff < ylim && xv[xoff] === yv[yoff]) {
+            matchOf[xoff++] = yoff++;
+        }
+        while (xlim > xoff && ylim > yoff && xv[xlim - 1] === yv[ylim - 1]) {
+            matchOf[--xlim] = --ylim;
+        }
+        if (xoff === xlim || yoff === ylim) {
+            continue;
+        }
+        
+        const anchors = findAnchors(xv, yv, xoff, xlim, yoff, ylim);
+        if (anchors.length === 0) {
+            for (const op of myersDiff(arr1.slice(xoff, xlim), arr2.slice(yoff, ylim))) {
+                if (op.type === 'equal') {
+                    matchOf[xoff + op.oldIndex] = yoff + op.newIndex;
+                }
+            }
+            continue;
+        }
+        
+        let x = xoff;
+        let y = yoff;
+        for (const [anchorX, anchorY] of anchors) {
+            stack.push([x, anchorX, y, anchorY]);
+            matchOf[anchorX] = anchorY;
+            x = anchorX + 1;
+            y = anchorY + 1;
+        }
+        stack.push([x, xlim, y, ylim]);
+    }
+    
+    return toEditScript(matchOf, yv.length);
+}
+
+/**
+ * Patience 锚点：两侧区间内都只出现一次的元素中，保持相对顺序的最多的一组
+ */
+function findPatienceAnchors(xv: Int32Array, yv: Int32Array, xoff: number, xlim: number, yoff: number, ylim: number): Array<[number, number]> {
+    // 每个元素在两侧的出现次数及最后出现的位置
+    const counts = new Map<number, { old: number; new: number; oldIndex: number; newIndex: number }>();
+    for (let x = xoff; x < xlim; x++) {
+        const entry = counts.get(xv[x]);
+        if (entry) {
+            entry.old++;
+        } else {
+            counts.set(xv[x], { old: 1, new: 0, oldIndex: x, newIndex: -1 });
+        }
+    }
+    for (let y = yoff; y < ylim; y++) {
+        const entry = counts.get(yv[y]);
+        if (entry) {
+            entry.new++;
+            entry.newIndex = y;
+        }
+    }
+    
+    const candidates: Array<[number, number]> = [];
+    for (let x = xoff; x < xlim; x++) {
+        const entry = counts.get(xv[x])!;
+        if (entry.old === 1 && entry.new === 1) {
+            candidates.push([x, entry.newIndex]);
+        }
+    }
+    return longestIncreasingSubsequence(candidates.map(([, y]) => y)).map(index => candidates[index]);
+}
+
+/**
+ * Histogram 算法中参与锚点选择的元素在旧区间中的最大出现次数
+ */
+const MAX_HISTOGRAM_OCCURRENCES = 64;
+
+/**
+ * Histogram 锚点：公共片段中所含元素在旧区间里出现次数最少的一段，次数相同时取较长的一段
+ */
+function findHistogramAnchors(xv: Int32Array, yv: Int32Array, xoff: number, xlim: number, yoff: number, ylim: number): Array<[number, number]> {
+    const occurrences = new Map<number, number[]>();
+    for (let x = xoff; x < xlim; x++) {
+        const positions = occurrences.get(xv[x]);
+        if (positions) {
+            positions.push(x);
+        } else {
+            occurrences.set(xv[x], [x]);
+        }
+    }
+    
+    let best: { x: number; y: number; length: number; count: number } | null = null;
+    let y = yoff;
+    while (y < ylim) {
+        const positions = occurrences.get(yv[y]);
+        let nextY = y + 1;
+        if (positions && positions.length <= MAX_HISTOGRAM_OCCURRENCES && (!best || positions.length <= best.count)) {
+            for (const x of positions) {
+                // 从匹配点向两侧延伸为公共片段
+                let startX = x, startY = y;
+                while (startX > xoff && startY > yoff && xv[startX - 1] === yv[startY - 1]) {
+                    startX--;
+                    startY--;
+                }
+                let endX = x + 1, endY = y + 1;
+                while (endX < xlim && endY < ylim && xv[endX] === yv[endY]) {
+                    endX++;
+                    endY++;
+                }
+                let count = Infinity;
+                for (let k = startX; k < endX; k++) {
+                    count = Math.min(count, occurrences.get(xv[k])!.length);
+                }
+                if (!best || count < best.count || (count === best.count && endX - startX > best.length)) {
+                    best = { x: startX, y: startY, length: endX - startX, count };
+                }
+                nextY = Math.max(nextY, endY);
+            }
+        }
+        y = nextY;
+    }
+    
+    if (!best) {
+        return [];
+    }
+    const anchors: Array<[number, number]> = [];
+    for (let k = 0; k < best.length; k++) {
+        anchors.push([best.x + k, best.y + k]);
+    }
+    return anchors;
+}
+
+/**
+ * Patience 差异算法
+ */
+function patienceDiff(arr1: string[], arr2: string[]): EditOp[] {
+    return anchoredDiff(arr1, arr2, findPatienceAnchors);
+}
+
+/**
+ * Histogram 差异算法
+ */
+function histogramDiff(arr1: string[], arr2: string[]): EditOp[] {
+    return anchoredDiff(arr1, arr2, findHistogramAnchors);
+}
+
+const SEQUENCE_DIFFS: Record<DiffAlgorithm, SequenceDiff> = {
+    myers: myersDiff,
+    patience: patienceDiff,
+    histogram: histogramDiff
+};
+
+/**
+ * 获取差异算法的实现，未知的算法回退到 Myers
+ */
+function getSequenceDiff(algorithm: DiffAlgorithm = DEFAULT_DIFF_ALGORITHM): SequenceDiff {
+    return SEQUENCE_DIFFS[algorithm] || myersDiff;
+}
+
+/**
+ * 计算差异统计信息
+ */
+function calculateStats(diff: DiffLine[], ialMode: IalMode = DEFAULT_IAL_MODE): DiffResult['stats'] {
+    let additions = 0;
+    let deletions = 0;
+    let modifications = 0;
+    let moves = 0;
+    
+    for (const line of diff) {
+        // 淡色显示的 IAL 行及并入变更块的相同行不计入统计
+        if ((ialMode === 'dim' && line.isIdLine) || line.absorbed) {
+            continue;
+        }
+        if (line.type === 'added') {
+            additions++;
+        } else if (line.type === 'removed') {
+            deletions++;
+        } else if (line.type === 'modified') {
+            modifications++;
+        } else if (line.type === 'moved-to') {
+            moves++;
+        }
+    }
+    
+    return {
+        additions,
+        deletions,
+        modifications,
+        moves,
+        changes: additions + deletions + modifications + moves
     };
 }
 
@@ -266,124 +3331,421 @@ export function generateDiffHtml(doc1: any, doc2: any, options: DiffViewOptions
             return generateUnifiedDiffHtml(doc1, doc2, options);
         case DiffViewMode.SIDE_BY_SIDE:
             return generateSideBySideDiffHtml(doc1, doc2, options);
+        case DiffViewMode.RENDERED:
+            return generateRenderedDiffHtml(doc1, doc2, options);
+        case DiffViewMode.INLINE:
+            return generateInlineDiffHtml(doc1, doc2, options);
         default:
             return generateUnifiedDiffHtml(doc1, doc2, options);
     }
 }
 
+/**
+ * 获取视图使用的差异结果，未预先提供时根据文档内容计算
+ */
+function resolveDiffResult(doc1: any, doc2: any, options: DiffViewOptions): DiffResult {
+    return options.diffResult || computeTextDiff(doc1.content, doc2.content, { ...options.compareOptions, contextLines: options.contextLines, ialMode: options.ialMode });
+}
+
+/**
+ * 生成视图中各行容器对应的行，参数与 generateModeSwitchableDiffHtml 相同
+ */
+export function buildDiffRows(doc1: any, doc2: any, currentMode: DiffViewMode = DiffViewMode.UNIFIED, viewOptions?: Partial<DiffViewOptions>): DiffRowSet {
+    const options = toModeViewOptions(currentMode, viewOptions);
+    const diffResult = resolveDiffResult(doc1, doc2, options);
+    if (options.mode === DiffViewMode.SIDE_BY_SIDE) {
+        return buildSideBySideDiffRows(doc1, doc2, diffResult, options);
+    }
+    if (options.mode === DiffViewMode.RENDERED) {
+        return buildRenderedDiffRows(doc1, doc2, diffResult, options);
+    }
+    if (options.mode === DiffViewMode.INLINE) {
+        return { unified: buildInlineDiffRows(diffResult, options) };
+    }
+    return { unified: buildUnifiedDiffRows(diffResult, options) };
+}
+
 /**
  * 生成统一差异HTML（合并模式）
  */
 export function generateUnifiedDiffHtml(doc1: any, doc2: any, options: DiffViewOptions): string {
-    const diffResult = computeTextDiff(doc1.content, doc2.content);
-    const enableLineActions = options.enableLineActions || false;
+    const diffResult = resolveDiffResult(doc1, doc2, options);
     
     let diffHtml = '';
     
     // 添加统计信息
+    diffHtml += renderDiffStats(diffResult);
+    
+    if (options.virtual) {
+        diffHtml += '<div class="diff-virtual-host" data-virtual-pane="unified"></div>';
+    } else {
+        diffHtml += buildUnifiedDiffRows(diffResult, options).map(row => row.render()).join('');
+    }
+    
+    return diffHtml;
+}
+
+/**
+ * 生成合并模式的各行，折叠区域按展开状态生成部分行和折叠提示行
+ */
+function buildUnifiedDiffRows(diffResult: DiffResult, options: DiffViewOptions): DiffRow[] {
+    const enableLineActions = options.enableLineActions || false;
+    const dimIdLines = (options.ialMode ?? DEFAULT_IAL_MODE) !== 'show';
+    
+    const rows: DiffRow[] = [];
+    const lines = diffResult.lines;
+    const expandedRegions = options.expandedRegions || {};
+    const regionByStart = new Map(diffResult.collapsedRegions.map(region => [region.start, region]));
+    const hunkByStart = new Map(diffResult.hunks.map(hunk => [hunk.startIndex, hunk]));
+    const regionEnds = new Set(diffResult.collapsedRegions.map(region => region.end));
+    const moveStarts = getMoveStarts(diffResult);
+    const tableByStart = new Map((diffResult.tables || []).map(table => [table.startIndex, table]));
+    const pushLine = (k: number) => rows.push({
+        render: () => renderUnifiedLine(lines[k], k, enableLineActions, dimIdLines, moveStarts.get(k)),
+        lineIndex: k,
+        oldLineNumber: lines[k].oldLineNumber,
+        newLineNumber: lines[k].newLineNumber
+    });
+    
+    let i = 0;
+    while (i < lines.length) {
+        const region = regionByStart.get(i);
+        if (!region) {
+            // 前面没有折叠区域的差异块单独显示头部；前面有折叠区域时头部显示在折叠行中
+            const hunk = hunkByStart.get(i);
+            if (hunk && !regionEnds.has(i)) {
+                rows.push({ render: () => renderHunkHeaderRow(hunk), lineIndex: i });
+            }
+            // 有变化的表格整体显示为单元格网格
+            const table = tableByStart.get(i);
+            if (table) {
+                const start = i;
+                rows.push({
+                    render: () => `<div class="diff-line diff-line-table" data-line-index="${start}">${renderTableGrid(table, 'unified')}</div>`,
+                    lineIndex: start,
+                    oldLineNumber: table.oldStart,
+                    newLineNumber: table.newStart
+                });
+                i = table.endIndex;
+                continue;
+            }
+            pushLine(i);
+            i++;
+            continue;
+        }
+        
+        const length = region.end - region.start;
+        const expansion = expandedRegions[region.start] || { top: 0, bottom: 0 };
+        const top = Math.min(expansion.top, length);
+        const bottom = Math.min(expansion.bottom, length - top);
+        
+        for (let k = region.start; k < region.start + top; k++) {
+            pushLine(k);
+        }
+        if (length - top - bottom > 0) {
+            rows.push({ render: () => renderCollapsedRow(region, length - top - bottom, lines.length, hunkByStart.get(region.end)), lineIndex: region.start + top });
+        }
+        for (let k = region.end - bottom; k < region.end; k++) {
+            pushLine(k);
+        }
+        i = region.end;
+    }
+    
+    return rows;
+}
+
+/**
+ * 生成统计信息栏
+ */
+function renderDiffStats(diffResult: DiffResult): string {
     const stats = diffResult.stats;
-    diffHtml += `
+    return `
         <div class="diff-stats">
             <span class="diff-stat-item">
-                <span class="diff-stat-additions">+${stats.additions}</span>
-                <span class="diff-stat-deletions">-${stats.deletions}</span>
+                <span class="diff-stat-additions" title="${escapeHtml(t("docDiff.stats.additions"))}">+${stats.additions}</span>
+                <span class="diff-stat-deletions" title="${escapeHtml(t("docDiff.stats.deletions"))}">-${stats.deletions}</span>
+                <span class="diff-stat-modifications" title="${escapeHtml(t("docDiff.stats.modifications"))}">~${stats.modifications}</span>
+                ${stats.moves > 0 ? `<span class="diff-stat-moves" title="${escapeHtml(t("docDiff.stats.moves"))}">⇅${stats.moves}</span>` : ''}
             </span>
+            ${diffResult.blocks ? renderBlockSummary(diffResult.blocks) : ''}
         </div>
     `;
+}
+
+/**
+ * 生成按块比较时各状态块数的摘要
+ */
+function renderBlockSummary(blocks: BlockDiff[]): string {
+    const statuses: BlockDiffStatus[] = ['inserted', 'deleted', 'edited', 'moved', 'unchanged'];
+    const items = statuses.map(status => {
+        const count = blocks.filter(block => block.status === status).length;
+        return `<span class="diff-block-badge diff-block-${status}">${escapeHtml(t(`docDiff.blockStatus.${status}`))} ${count}</span>`;
+    }).join('');
+    return `<span class="diff-stat-item diff-block-summary">${escapeHtml(t("docDiff.blockStatus.title"))}${items}</span>`;
+}
+
+/**
+ * 生成块第一行上的块状态标记，未更改的块不标记；按 Markdown 块比较时附带节点类型及变化
+ */
+function renderBlockBadge(status?: BlockDiffStatus, nodeLabel?: MarkdownNodeLabel): string {
+    if (!status || status === 'unchanged') {
+        return '';
+    }
+    const label = nodeLabel ? [describeMarkdownNode(nodeLabel.node), ...describeMarkdownNodeChanges(nodeLabel)].join(' · ') : '';
+    return `<span class="diff-block-badge diff-block-${status}" contenteditable="false">${escapeHtml(t(`docDiff.blockStatus.${status}`))}</span>`
+        + (label ? `<span class="diff-node-label" contenteditable="false">${escapeHtml(label)}</span>` : '');
+}
+
+/**
+ * 节点类型名称，如 "H2 标题"、"有序列表项"
+ */
+function describeMarkdownNode(node: MarkdownNodeInfo): string {
+    let name: string;
+    switch (node.type) {
+        case 'heading':
+            name = t("docDiff.nodeType.heading", { level: String(node.level) });
+            break;
+        case 'list-item':
+            name = t(node.ordered ? "docDiff.nodeType.orderedListItem" : "docDiff.nodeType.listItem");
+            break;
+        case 'code':
+            name = node.lang ? `${t("docDiff.nodeType.code")} ${node.lang}` : t("docDiff.nodeType.code");
+            break;
+        case 'thematic-break':
+            name = t("docDiff.nodeType.thematicBreak");
+            break;
+        case 'front-matter':
+            name = t("docDiff.nodeType.frontMatter");
+            break;
+        default:
+            name = t(`docDiff.nodeType.${node.type}`);
+    }
+    return node.quoteDepth > 0 ? `${t("docDiff.nodeType.quote")} › ${name}` : name;
+}
+
+/**
+ * 描述修改或移动的节点在类型、标题级别、列表层级、代码语言、父节点等属性上的变化
+ */
+function describeMarkdownNodeChanges(label: MarkdownNodeLabel): string[] {
+    const { node, previous } = label;
+    if (!previous) {
+        return [];
+    }
     
-    // 生成差异行
-    for (let i = 0; i < diffResult.lines.length; i++) {
-        const line = diffResult.lines[i];
-        const oldLineNum = line.oldLineNumber || '';
-        const newLineNum = line.newLineNumber || '';
-        const content = processLineContent(line.content);
-        
-        let lineClass = '';
-        let prefix = '';
-        let actionButtons = '';
-        
-        switch (line.type) {
-            case 'added':
-                lineClass = line.isIdLine ? 'diff-line-added diff-line-id' : 'diff-line-added';
-                prefix = '<span class="diff-prefix">+</span>';
-                if (enableLineActions) {
-                    actionButtons = `
-                        <div class="diff-line-actions">
-                            <button class="diff-line-action-btn diff-revert-line-btn"
-                                    onclick="window.revertLine && window.revertLine(${i}, 'added')"
-                                    title="撤回到原文档内容">
-                                    <svg  viewBox="0 0 1024 1024" version="1.1" xmlns="http://www.w3.org/2000/svg" fill=“currentColor” width="64" height="64"><path d="M64 347.552L320 128v448z"  p-id="6963"></path><path d="M265.472 896v-112h377.824a200 200 0 1 0 0-400H240V272h403.296c172.32 0 312 139.68 312 312S815.616 896 643.296 896H265.472z"  p-id="6964"></path></svg>
-                            </button>
-                        </div>
-                    `;
-                }
-                break;
-            case 'removed':
-                lineClass = line.isIdLine ? 'diff-line-removed diff-line-id' : 'diff-line-removed';
-                prefix = '<span class="diff-prefix">-</span>';
-                // 原文档被删除的行不显示接受按钮
-                break;
-            case 'context':
-                lineClass = 'diff-line-context';
-                prefix = '<span class="diff-prefix">&nbsp;</span>';
-                break;
+    const changes: string[] = [];
+    const change = (key: string, from: string, to: string) => changes.push(t(`docDiff.nodeChange.${key}`, { from, to }));
+    if (previous.type !== node.type) {
+        change('type', describeMarkdownNode(previous), describeMarkdownNode(node));
+    } else if (node.type === 'heading' && previous.level !== node.level) {
+        change('level', `H${previous.level}`, `H${node.level}`);
+    } else if (node.type === 'list-item' && previous.ordered !== node.ordered) {
+        change('listType', describeMarkdownNode(previous), describeMarkdownNode(node));
+    } else if (node.type === 'code' && previous.lang !== node.lang) {
+        change('lang', previous.lang || t("docDiff.nodeChange.noLang"), node.lang || t("docDiff.nodeChange.noLang"));
+    }
+    if (previous.listDepth !== node.listDepth) {
+        change('listDepth', String(previous.listDepth), String(node.listDepth));
+    }
+    if (previous.quoteDepth !== node.quoteDepth) {
+        change('quoteDepth', String(previous.quoteDepth), String(node.quoteDepth));
+    }
+    if (previous.parentText !== undefined && node.parentText !== undefined && previous.parentText !== node.parentText) {
+        change('parent', previous.parentText || t("docDiff.nodeChange.root"), node.parentText || t("docDiff.nodeChange.root"));
+    }
+    return changes;
+}
+
+/**
+ * 生成统一视图中的单个差异行
+ */
+function renderUnifiedLine(line: DiffLine, i: number, enableLineActions: boolean, dimIdLines: boolean, moveStart?: DiffMove): string {
+    const oldLineNum = line.oldLineNumber || '';
+    const newLineNum = line.newLineNumber || '';
+    const content = line.fragments ? processLineFragments(line.fragments) : processLineContent(line.content);
+    const idClass = line.isIdLine && dimIdLines ? ' diff-line-id' : '';
+    
+    let lineClass = '';
+    let prefix = '';
+    let actionButtons = '';
+    let moveAttrs = '';
+    let moveLink = '';
+    
+    switch (line.absorbed ? 'context' : line.type) {
+        case 'added':
+            lineClass = 'diff-line-added' + idClass;
+            prefix = '<span class="diff-prefix">+</span>';
+            if (enableLineActions) {
+                actionButtons = renderRevertLineButton(i, 'added');
+            }
+            break;
+        case 'removed':
+            lineClass = 'diff-line-removed' + idClass;
+            prefix = '<span class="diff-prefix">-</span>';
+            // 原文档被删除的行不显示接受按钮
+            break;
+        case 'modified': {
+            // 修改行显示为对齐的一对：旧内容在上，新内容在下
+            const oldContent = line.oldFragments ? processLineFragments(line.oldFragments) : processLineContent(line.oldContent || '');
+            return `
+        <div class="diff-line diff-line-removed diff-line-modified${idClass}" data-line-index="${i}">
+            <div class="diff-line-number old-line-number">${oldLineNum}</div>
+            <div class="diff-line-number new-line-number"></div>
+            <div class="diff-line-content"><span class="diff-prefix">-</span>${oldContent}${renderBlockBadge(line.blockStatus, line.nodeLabel)}</div>
+        </div>
+        <div class="diff-line diff-line-added diff-line-modified diff-line-modified-new${idClass}" data-line-index="${i}">
+            <div class="diff-line-number old-line-number"></div>
+            <div class="diff-line-number new-line-number">${newLineNum}</div>
+            <div class="diff-line-content"><span class="diff-prefix">+</span>${content}</div>
+            ${enableLineActions ? renderRevertLineButton(i, 'modified') : ''}
+        </div>
+    `;
         }
-        
-        diffHtml += `
-            <div class="diff-line ${lineClass}" data-line-index="${i}">
-                <div class="diff-line-number old-line-number">${oldLineNum}</div>
-                <div class="diff-line-number new-line-number">${newLineNum}</div>
-                <div class="diff-line-content">${prefix}${content}</div>
-                ${actionButtons}
+        case 'moved-from':
+        case 'moved-to': {
+            const side = line.type === 'moved-from' ? 'from' : 'to';
+            lineClass = `diff-line-moved diff-line-${line.type}` + idClass;
+            prefix = `<span class="diff-prefix">${side === 'from' ? '-' : '+'}</span>`;
+            moveAttrs = ` data-move-id="${line.moveId}" data-move-side="${side}"`;
+            // 移动块的第一行显示跳转到另一端的链接
+            if (moveStart) {
+                moveLink = renderMoveLink(moveStart, side === 'from' ? 'to' : 'from');
+            }
+            break;
+        }
+        case 'context':
+            lineClass = 'diff-line-context';
+            prefix = '<span class="diff-prefix">&nbsp;</span>';
+            break;
+    }
+    
+    return `
+        <div class="diff-line ${lineClass}" data-line-index="${i}"${moveAttrs}>
+            <div class="diff-line-number old-line-number">${oldLineNum}</div>
+            <div class="diff-line-number new-line-number">${newLineNum}</div>
+            <div class="diff-line-content">${prefix}${content}${moveLink}${renderBlockBadge(line.blockStatus, line.nodeLabel)}</div>
+            ${actionButtons}
+        </div>
+    `;
+}
+
+/**
+ * 获取移动块两端第一行的下标到移动块的映射
+ */
+function getMoveStarts(diffResult: DiffResult): Map<number, DiffMove> {
+    const moveStarts = new Map<number, DiffMove>();
+    for (const move of diffResult.moves || []) {
+        moveStarts.set(move.fromIndex, move);
+        moveStarts.set(move.toIndex, move);
+    }
+    return moveStarts;
+}
+
+/**
+ * 生成跳转到移动块另一端的链接
+ */
+function renderMoveLink(move: DiffMove, target: 'from' | 'to'): string {
+    const label = target === 'to'
+        ? t("docDiff.movedTo", { line: String(move.newStart) })
+        : t("docDiff.movedFrom", { line: String(move.oldStart) });
+    return `<a class="diff-move-link" contenteditable="false" onclick="window.jumpToMove && window.jumpToMove(${move.id}, '${target}')">${escapeHtml(label)}</a>`;
+}
+
+/**
+ * 生成撤回单行的按钮
+ */
+function renderRevertLineButton(i: number, lineType: 'added' | 'modified'): string {
+    return `
+                    <div class="diff-line-actions">
+                        <button class="diff-line-action-btn diff-revert-line-btn"
+                                onclick="window.revertLine && window.revertLine(${i}, '${lineType}')"
+                                title="撤回到原文档内容">
+                                <svg  viewBox="0 0 1024 1024" version="1.1" xmlns="http://www.w3.org/2000/svg" fill=“currentColor” width="64" height="64"><path d="M64 347.552L320 128v448z"  p-id="6963"></path><path d="M265.472 896v-112h377.824a200 200 0 1 0 0-400H240V272h403.296c172.32 0 312 139.68 312 312S815.616 896 643.296 896H265.472z"  p-id="6964"></path></svg>
+                        </button>
+                    </div>
+                `;
+}
+
+/**
+ * 生成折叠区域的提示行，提供展开全部、向上/向下展开的按钮
+ */
+function renderCollapsedRow(region: CollapsedRegion, hiddenCount: number, totalLines: number, nextHunk?: DiffHunk): string {
+    const expandButton = (direction: 'up' | 'down' | 'all', label: string, title: string) => `
+        <button class="diff-expand-button"
+                onclick="window.expandDiffRegion && window.expandDiffRegion(${region.start}, '${direction}')"
+                title="${escapeHtml(title)}">${label}</button>
+    `;
+    
+    const step = String(EXPAND_STEP_LINES);
+    // 区域上方有内容时才能向下展开，下方有内容时才能向上展开
+    const buttons = [
+        region.start > 0 && hiddenCount > EXPAND_STEP_LINES ? expandButton('down', `↓ ${step}`, t("docDiff.expandDown", { count: step })) : '',
+        region.end < totalLines && hiddenCount > EXPAND_STEP_LINES ? expandButton('up', `↑ ${step}`, t("docDiff.expandUp", { count: step })) : '',
+        expandButton('all', '↕', t("docDiff.expandAll"))
+    ].join('');
+    
+    return `
+        <div class="diff-line diff-line-collapsed" data-region-start="${region.start}"${nextHunk ? ` data-hunk-start="${nextHunk.startIndex}"` : ''}>
+            <div class="diff-line-number old-line-number"></div>
+            <div class="diff-line-number new-line-number"></div>
+            <div class="diff-line-content diff-collapsed-content">
+                <span class="diff-expand-buttons">${buttons}</span>
+                <span class="diff-collapsed-label">${escapeHtml(t("docDiff.collapsedLines", { count: String(hiddenCount) }))}</span>
+                ${nextHunk ? renderHunkHeader(nextHunk) : ''}
             </div>
-        `;
+        </div>
+    `;
+}
+
+/**
+ * 生成差异块头部内容：@@ 行号范围 @@ 及所在标题
+ */
+function renderHunkHeader(hunk: DiffHunk): string {
+    const heading = hunk.heading ? `<span class="diff-hunk-heading">${escapeHtml(hunk.heading)}</span>` : '';
+    return `<span class="diff-hunk-header"><span class="diff-hunk-range">${formatHunkHeader(hunk)}</span>${heading}</span>`;
+}
+
+/**
+ * 生成单独的差异块头部行
+ */
+function renderHunkHeaderRow(hunk: DiffHunk): string {
+    return `
+        <div class="diff-line diff-line-hunk" data-hunk-start="${hunk.startIndex}">
+            <div class="diff-line-number old-line-number"></div>
+            <div class="diff-line-number new-line-number"></div>
+            <div class="diff-line-content">${renderHunkHeader(hunk)}</div>
+        </div>
+    `;
+}
+
+/**
+ * 计算折叠区域展开后的状态
+ * down 从区域顶部继续向下展开，up 从区域底部继续向上展开
+ */
+export function expandRegion(region: CollapsedRegion, expansion: RegionExpansion | undefined, direction: 'up' | 'down' | 'all'): RegionExpansion {
+    const length = region.end - region.start;
+    const current = expansion || { top: 0, bottom: 0 };
+    switch (direction) {
+        case 'down':
+            return { top: Math.min(length, current.top + EXPAND_STEP_LINES), bottom: current.bottom };
+        case 'up':
+            return { top: current.top, bottom: Math.min(length, current.bottom + EXPAND_STEP_LINES) };
+        default:
+            return { top: length, bottom: 0 };
     }
-    
-    return diffHtml;
 }
 
 /**
  * 生成并排差异HTML（并排模式）
  */
 export function generateSideBySideDiffHtml(doc1: any, doc2: any, options: DiffViewOptions): string {
-    const diffResult = computeTextDiff(doc1.content, doc2.content);
+    const diffResult = resolveDiffResult(doc1, doc2, options);
     const enableEditing = options.enableEditing || false;
-    const showLineNumbers = options.showLineNumbers !== false; // 默认显示行号
+    const rows = options.virtual ? null : buildSideBySideDiffRows(doc1, doc2, diffResult, options);
     
     let diffHtml = '';
     
     // 添加统计信息
-    const stats = diffResult.stats;
-    diffHtml += `
-        <div class="diff-stats">
-            <span class="diff-stat-item">
-                <span class="diff-stat-additions">+${stats.additions}</span>
-                <span class="diff-stat-deletions">-${stats.deletions}</span>
-            </span>
-        </div>
-    `;
-    
-    // 创建行映射，用于在并排模式中显示差异
-    const leftLineMap = new Map<number, { type: 'added' | 'removed' | 'context', content: string, isIdLine?: boolean }>();
-    const rightLineMap = new Map<number, { type: 'added' | 'removed' | 'context', content: string, isIdLine?: boolean }>();
-    
-    // 处理差异结果，建立行映射
-    for (const line of diffResult.lines) {
-        if (line.oldLineNumber !== undefined) {
-            leftLineMap.set(line.oldLineNumber, {
-                type: line.type,
-                content: line.content,
-                isIdLine: line.isIdLine
-            });
-        }
-        if (line.newLineNumber !== undefined) {
-            rightLineMap.set(line.newLineNumber, {
-                type: line.type,
-                content: line.content,
-                isIdLine: line.isIdLine
-            });
-        }
-    }
+    diffHtml += renderDiffStats(diffResult);
     
     // 创建并排布局
     diffHtml += `
@@ -394,76 +3756,774 @@ export function generateSideBySideDiffHtml(doc1: any, doc2: any, options: DiffVi
                     <span class="pane-label old-file">原文档</span>
                 </div>
                 <div class="pane-content" id="left-pane-content">
+                    ${rows ? rows.left.map(row => row.render()).join('') : '<div class="diff-virtual-host" data-virtual-pane="left"></div>'}
+                </div>
+            </div>
+            <div class="side-by-side-pane right-pane">
+                <div class="pane-header">
+                    <span class="pane-title">${escapeHtml(doc2.title)}</span>
+                    <span class="pane-label new-file">新文档</span>
+                    ${enableEditing ? '<button class="save-button" onclick="window.saveChanges && window.saveChanges()" title="保存更改">保存</button>' : ''}
+                </div>
+                <div class="pane-content" id="right-pane-content">
+                    ${rows ? rows.right.map(row => row.render()).join('') : '<div class="diff-virtual-host" data-virtual-pane="right"></div>'}
+                </div>
+            </div>
+        </div>
     `;
     
-    // 生成左侧内容（原文档）
-    const leftLines = doc1.content.split('\n');
-    for (let i = 0; i < leftLines.length; i++) {
-        const lineNumber = i + 1;
-        const content = processLineContent(leftLines[i]);
-        const diffInfo = leftLineMap.get(lineNumber);
-        
-        let lineClass = 'side-line';
-        if (diffInfo) {
-            if (diffInfo.type === 'removed') {
-                lineClass += diffInfo.isIdLine ? ' side-line-removed side-line-id' : ' side-line-removed';
-            } else if (diffInfo.type === 'context') {
-                lineClass += ' side-line-context';
-            }
-        }
-        
-        diffHtml += `
-            <div class="${lineClass}" data-line-number="${lineNumber}">
+    return diffHtml;
+}
+
+/**
+ * 生成并排模式两侧的各行
+ * 两侧逐行对齐：相同和修改的行左右相对，变更块中删除和新增的行按顺序左右配对，多出的行对面用空白行占位
+ * 每侧的文本取自该侧文档的对应行：忽略大小写、空白或按 Markdown 块比较时，相同的行两侧文本可能不同，右侧编辑后也按行号写回
+ * 右侧开启编辑时每行内容可编辑
+ */
+function buildSideBySideDiffRows(doc1: any, doc2: any, diffResult: DiffResult, options: DiffViewOptions): { left: DiffRow[]; right: DiffRow[] } {
+    const enableEditing = options.enableEditing || false;
+    const showLineNumbers = options.showLineNumbers !== false; // 默认显示行号
+    const dimIdLines = (options.ialMode ?? DEFAULT_IAL_MODE) !== 'show';
+    const lines = diffResult.lines;
+    const oldLines = normalizeLineEndings(doc1.content || '').split('\n');
+    const newLines = normalizeLineEndings(doc2.content || '').split('\n');
+    const moveStarts = getMoveStarts(diffResult);
+    const tableByStart = new Map((diffResult.tables || []).map(table => [table.startIndex, table]));
+    
+    const left: DiffRow[] = [];
+    const right: DiffRow[] = [];
+    
+    const fillerRow = (lineIndex?: number): DiffRow => ({
+        render: () => `
+            <div class="side-line side-line-filler">
+                ${showLineNumbers ? '<div class="side-line-number" contenteditable="false"></div>' : ''}
+                <div class="side-line-content"></div>
+            </div>
+        `,
+        lineIndex
+    });
+    
+    // 差异结果中没有的行（如行尾换行后的空行）按相同的行显示
+    const sourceRow = (lineNumber: number, isLeft: boolean): DiffRow => ({
+        render: () => {
+            const isEditable = !isLeft && enableEditing ? ' contenteditable="true"' : '';
+            return `
+            <div class="side-line side-line-context" data-line-number="${lineNumber}">
+                ${showLineNumbers ? `<div class="side-line-number" contenteditable="false">${lineNumber}</div>` : ''}
+                <div class="side-line-content"${isEditable}>${processLineContent((isLeft ? oldLines : newLines)[lineNumber - 1])}</div>
+            </div>
+        `;
+        },
+        ...(isLeft ? { oldLineNumber: lineNumber } : { newLineNumber: lineNumber })
+    });
+    
+    const lineRow = (lineIndex: number, isLeft: boolean): DiffRow => {
+        const line = lines[lineIndex];
+        const lineNumber = isLeft ? line.oldLineNumber : line.newLineNumber;
+        const movedType = isLeft ? 'moved-from' : 'moved-to';
+        return {
+            render: () => {
+                // 修改的行按片段显示，其余的行显示该侧文档中的原文
+                const fragments = line.type === 'modified' ? (isLeft ? line.oldFragments : line.fragments) : undefined;
+                const text = (isLeft ? oldLines : newLines)[lineNumber - 1] ?? (isLeft && line.type === 'modified' ? line.oldContent : line.content);
+                const content = fragments ? processLineFragments(fragments) : processLineContent(text);
+                const idClass = line.isIdLine && dimIdLines ? ' side-line-id' : '';
+                let lineClass = 'side-line';
+                if (line.absorbed) {
+                    lineClass += ' side-line-context';
+                } else if (line.type === 'removed' || line.type === 'added') {
+                    lineClass += ` side-line-${line.type}${idClass}`;
+                } else if (line.type === 'modified') {
+                    lineClass += ` side-line-modified${idClass}`;
+                } else if (line.type === movedType) {
+                    lineClass += ` side-line-moved${idClass}`;
+                } else {
+                    lineClass += ' side-line-context';
+                }
+                const isMoved = line.type === movedType;
+                const moveStart = moveStarts.get(lineIndex);
+                const moveAttrs = isMoved ? ` data-move-id="${line.moveId}" data-move-side="${isLeft ? 'from' : 'to'}"` : '';
+                const moveLink = isMoved && moveStart ? renderMoveLink(moveStart, isLeft ? 'to' : 'from') : '';
+                const isEditable = !isLeft && enableEditing ? ' contenteditable="true"' : '';
+                return `
+            <div class="${lineClass}" data-line-number="${lineNumber}"${moveAttrs}>
                 ${showLineNumbers ? `<div class="side-line-number" contenteditable="false">${lineNumber}</div>` : ''}
-                <div class="side-line-content">${content}</div>
+                <div class="side-line-content"${isEditable}>${content}</div>
+                ${moveLink}${renderBlockBadge(line.blockStatus, line.nodeLabel)}
             </div>
         `;
+            },
+            lineIndex,
+            ...(isLeft ? { oldLineNumber: lineNumber } : { newLineNumber: lineNumber })
+        };
+    };
+    
+    // 两侧下一个尚未输出的行号
+    let nextOld = 1;
+    let nextNew = 1;
+    
+    // 输出差异结果中没有的行，直到两侧的指定行号之前，两侧按顺序配对
+    const pushSourceRows = (oldLimit: number, newLimit: number) => {
+        while (nextOld < oldLimit || nextNew < newLimit) {
+            left.push(nextOld < oldLimit ? sourceRow(nextOld++, true) : fillerRow());
+            right.push(nextNew < newLimit ? sourceRow(nextNew++, false) : fillerRow());
+        }
+    };
+    const skipTo = (oldLineNumber?: number, newLineNumber?: number) => {
+        nextOld = Math.max(nextOld, (oldLineNumber ?? 0) + 1);
+        nextNew = Math.max(nextNew, (newLineNumber ?? 0) + 1);
+    };
+    
+    let i = 0;
+    while (i < lines.length) {
+        const table = tableByStart.get(i);
+        if (table) {
+            pushSourceRows(table.oldStart, table.newStart);
+            left.push({ render: () => renderTableGrid(table, 'old'), lineIndex: i, oldLineNumber: table.oldStart });
+            right.push({ render: () => renderTableGrid(table, 'new'), lineIndex: i, newLineNumber: table.newStart });
+            skipTo(table.oldStart + table.oldLines - 1, table.newStart + table.newLines - 1);
+            i = table.endIndex;
+            continue;
+        }
+        
+        const line = lines[i];
+        if (line.type !== 'removed' && line.type !== 'added') {
+            // 相同和修改的行两侧相对，移动的行对面留空
+            pushSourceRows(line.oldLineNumber ?? nextOld, line.newLineNumber ?? nextNew);
+            left.push(line.oldLineNumber !== undefined ? lineRow(i, true) : fillerRow(i));
+            right.push(line.newLineNumber !== undefined ? lineRow(i, false) : fillerRow(i));
+            skipTo(line.oldLineNumber, line.newLineNumber);
+            i++;
+            continue;
+        }
+        
+        // 连续的删除/新增行按顺序左右配对
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (i < lines.length && (lines[i].type === 'removed' || lines[i].type === 'added') && !tableByStart.has(i)) {
+            (lines[i].type === 'removed' ? removed : added).push(i);
+            i++;
+        }
+        pushSourceRows(
+            removed.length > 0 ? lines[removed[0]].oldLineNumber : nextOld,
+            added.length > 0 ? lines[added[0]].newLineNumber : nextNew
+        );
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            left.push(k < removed.length ? lineRow(removed[k], true) : fillerRow(added[k]));
+            right.push(k < added.length ? lineRow(added[k], false) : fillerRow(removed[k]));
+        }
+        skipTo(
+            removed.length > 0 ? lines[removed[removed.length - 1]].oldLineNumber : undefined,
+            added.length > 0 ? lines[added[added.length - 1]].newLineNumber : undefined
+        );
     }
+    pushSourceRows(oldLines.length + 1, newLines.length + 1);
     
-    diffHtml += `
+    return { left, right };
+}
+
+/**
+ * 将表格差异渲染为网格
+ * unified 显示两侧所有的行和列，old/new 只显示对应一侧存在的行和列
+ */
+function renderTableGrid(table: TableDiff, side: 'unified' | 'old' | 'new'): string {
+    const visible = (oldPresent: boolean, newPresent: boolean) => side === 'unified' || (side === 'old' ? oldPresent : newPresent);
+    const columns = table.columns
+        .map((column, index) => ({ column, index }))
+        .filter(({ column }) => visible(column.oldIndex !== undefined, column.newIndex !== undefined));
+    const rows = table.rows.filter(row => visible(row.oldLineNumber !== undefined, row.newLineNumber !== undefined));
+    
+    const renderCell = (cell: TableCellDiff): string => {
+        const oldHtml = cell.oldFragments ? processLineFragments(cell.oldFragments) : escapeHtml(cell.oldText ?? '');
+        const newHtml = cell.newFragments ? processLineFragments(cell.newFragments) : escapeHtml(cell.newText ?? '');
+        if (cell.status !== 'changed') {
+            return escapeHtml((side === 'old' ? cell.oldText : cell.newText ?? cell.oldText) ?? '');
+        }
+        if (side === 'old') {
+            return oldHtml;
+        }
+        if (side === 'new') {
+            return newHtml;
+        }
+        return `<div class="diff-cell-old">${oldHtml}</div><div class="diff-cell-new">${newHtml}</div>`;
+    };
+    
+    const renderRow = (row: TableRowDiff, tag: 'th' | 'td') => {
+        const gutter = side === 'unified'
+            ? `<td class="diff-table-gutter">${row.oldLineNumber ?? ''}</td><td class="diff-table-gutter">${row.newLineNumber ?? ''}</td>`
+            : `<td class="diff-table-gutter">${(side === 'old' ? row.oldLineNumber : row.newLineNumber) ?? ''}</td>`;
+        const cells = columns.map(({ column, index }) => {
+            const cell = row.cells[index];
+            const align = column.align ? ` style="text-align: ${column.align}"` : '';
+            return `<${tag} class="diff-cell-${cell.status} diff-col-${column.status}"${align}>${renderCell(cell)}</${tag}>`;
+        }).join('');
+        return `<tr class="diff-table-row-${row.status}">${gutter}${cells}</tr>`;
+    };
+    
+    return `
+        <div class="diff-table-block" contenteditable="false">
+            <table class="diff-table">
+                <thead>${renderRow(table.header, 'th')}</thead>
+                <tbody>${rows.map(row => renderRow(row, 'td')).join('')}</tbody>
+            </table>
+        </div>
+    `;
+}
+
+/**
+ * 渲染模式中左右相对的一行：两侧对应的 Markdown 节点，只存在于一侧时另一侧为空
+ */
+interface RenderedBlockPair {
+    status: BlockDiffStatus;
+    oldNode?: MarkdownNode;
+    newNode?: MarkdownNode;
+    lineIndex: number;  // 该行第一次出现在差异结果中的行下标
+}
+
+/**
+ * 生成渲染差异HTML（渲染模式）
+ * 布局与并排模式相同，各行由 buildDiffRows 提供，非虚拟滚动时直接渲染
+ */
+export function generateRenderedDiffHtml(doc1: any, doc2: any, options: DiffViewOptions): string {
+    const diffResult = resolveDiffResult(doc1, doc2, options);
+    const rows = options.virtual ? null : buildRenderedDiffRows(doc1, doc2, diffResult, options);
+    
+    return `
+        ${renderDiffStats(diffResult)}
+        <div class="side-by-side-container rendered-diff-container">
+            <div class="side-by-side-pane left-pane">
+                <div class="pane-header">
+                    <span class="pane-title">${escapeHtml(doc1.title)}</span>
+                    <span class="pane-label old-file">原文档</span>
+                </div>
+                <div class="pane-content" id="left-pane-content">
+                    ${rows ? rows.left.map(row => row.render()).join('') : '<div class="diff-virtual-host" data-virtual-pane="left"></div>'}
                 </div>
             </div>
             <div class="side-by-side-pane right-pane">
                 <div class="pane-header">
                     <span class="pane-title">${escapeHtml(doc2.title)}</span>
                     <span class="pane-label new-file">新文档</span>
-                    ${enableEditing ? '<button class="save-button" onclick="window.saveChanges && window.saveChanges()" title="保存更改">保存</button>' : ''}
                 </div>
-                <div class="pane-content" id="right-pane-content" ${enableEditing ? 'contenteditable="true"' : ''}>
+                <div class="pane-content" id="right-pane-content">
+                    ${rows ? rows.right.map(row => row.render()).join('') : '<div class="diff-virtual-host" data-virtual-pane="right"></div>'}
+                </div>
+            </div>
+        </div>
     `;
+}
+
+/**
+ * 生成渲染模式两侧的各行
+ * 两侧文档分别解析为 Markdown 节点，按差异结果中行的对应关系逐块对照；各块在渲染时才调用 Lute，只渲染可见的块
+ */
+function buildRenderedDiffRows(doc1: any, doc2: any, diffResult: DiffResult, options: DiffViewOptions): { left: DiffRow[]; right: DiffRow[] } {
+    const lines1 = normalizeLineEndings(doc1.content || '').split('\n');
+    const lines2 = normalizeLineEndings(doc2.content || '').split('\n');
+    const pairs = pairRenderedBlocks(lines1, lines2, diffResult);
+    const left: DiffRow[] = [];
+    const right: DiffRow[] = [];
+    const filler = '<div class="side-line side-line-filler"></div>';
     
-    // 生成右侧内容（新文档）
-    const rightLines = doc2.content.split('\n');
-    for (let i = 0; i < rightLines.length; i++) {
-        const lineNumber = i + 1;
-        const content = processLineContent(rightLines[i]);
-        const isEditable = enableEditing ? 'contenteditable="true"' : '';
-        const diffInfo = rightLineMap.get(lineNumber);
-        
-        let lineClass = 'side-line';
-        if (diffInfo) {
-            if (diffInfo.type === 'added') {
-                lineClass += diffInfo.isIdLine ? ' side-line-added side-line-id' : ' side-line-added';
-            } else if (diffInfo.type === 'context') {
-                lineClass += ' side-line-context';
-            }
+    for (const pair of pairs) {
+        // 两侧共用一次渲染结果，修改的块需要对照两侧的文本标记行内差异
+        let rendered: { oldHtml: string; newHtml: string } | null = null;
+        const render = () => rendered || (rendered = renderBlockPair(pair, lines1, lines2, options.compareOptions));
+        left.push({
+            render: () => pair.oldNode ? render().oldHtml : filler,
+            lineIndex: pair.lineIndex,
+            oldLineNumber: pair.oldNode ? pair.oldNode.start + 1 : undefined
+        });
+        right.push({
+            render: () => pair.newNode ? render().newHtml : filler,
+            lineIndex: pair.lineIndex,
+            newLineNumber: pair.newNode ? pair.newNode.start + 1 : undefined
+        });
+    }
+    return { left, right };
+}
+
+/**
+ * 按差异结果把两侧的 Markdown 节点配成左右相对的行
+ * 差异行两侧对应的节点相对；连续的只存在于一侧的节点中，类型相同的删除和新增节点按顺序配成修改的一对
+ */
+function pairRenderedBlocks(lines1: string[], lines2: string[], diffResult: DiffResult): RenderedBlockPair[] {
+    // 引用块节点自身没有行，不单独显示
+    const oldNodes = parseMarkdownNodes(lines1).filter(node => node.end > node.start);
+    const newNodes = parseMarkdownNodes(lines2).filter(node => node.end > node.start);
+    const nodeOf = (nodes: MarkdownNode[], length: number) => {
+        const map = new Int32Array(length).fill(-1);
+        nodes.forEach((node, index) => map.fill(index, node.start, node.end));
+        return map;
+    };
+    const oldNodeOf = nodeOf(oldNodes, lines1.length);
+    const newNodeOf = nodeOf(newNodes, lines2.length);
+    
+    // 节点中各行的差异类型：是否有变化、是否全部为移动的行
+    const oldChanged = new Uint8Array(oldNodes.length);
+    const newChanged = new Uint8Array(newNodes.length);
+    const oldMoved = new Uint8Array(oldNodes.length).fill(1);
+    const newMoved = new Uint8Array(newNodes.length).fill(1);
+    const nodeIndexes = (line: DiffLine): [number, number] => [
+        line.oldLineNumber !== undefined ? oldNodeOf[line.oldLineNumber - 1] ?? -1 : -1,
+        line.newLineNumber !== undefined ? newNodeOf[line.newLineNumber - 1] ?? -1 : -1
+    ];
+    for (const line of diffResult.lines) {
+        const [oldIndex, newIndex] = nodeIndexes(line);
+        if (oldIndex >= 0) {
+            oldChanged[oldIndex] |= Number(line.type !== 'context');
+            oldMoved[oldIndex] &= Number(line.type === 'moved-from');
+        }
+        if (newIndex >= 0) {
+            newChanged[newIndex] |= Number(line.type !== 'context');
+            newMoved[newIndex] &= Number(line.type === 'moved-to');
         }
-        
-        diffHtml += `
-            <div class="${lineClass}" data-line-number="${lineNumber}">
-                ${showLineNumbers ? `<div class="side-line-number" contenteditable="false">${lineNumber}</div>` : ''}
-                <div class="side-line-content" ${isEditable}>${content}</div>
-            </div>
-        `;
     }
+    const singleStatus = (changed: number, moved: number, status: BlockDiffStatus): BlockDiffStatus =>
+        !changed ? 'unchanged' : moved ? 'moved' : status;
     
-    diffHtml += `
-                </div>
-            </div>
-        </div>
+    const pairs: RenderedBlockPair[] = [];
+    const oldEmitted = new Uint8Array(oldNodes.length);
+    const newEmitted = new Uint8Array(newNodes.length);
+    diffResult.lines.forEach((line, lineIndex) => {
+        let [oldIndex, newIndex] = nodeIndexes(line);
+        oldIndex = oldIndex >= 0 && !oldEmitted[oldIndex] ? oldIndex : -1;
+        newIndex = newIndex >= 0 && !newEmitted[newIndex] ? newIndex : -1;
+        if (oldIndex < 0 && newIndex < 0) {
+            return;
+        }
+        if (oldIndex >= 0) {
+            oldEmitted[oldIndex] = 1;
+        }
+        if (newIndex >= 0) {
+            newEmitted[newIndex] = 1;
+        }
+        let status: BlockDiffStatus;
+        if (oldIndex >= 0 && newIndex >= 0) {
+            status = oldChanged[oldIndex] || newChanged[newIndex] ? 'edited' : 'unchanged';
+        } else if (oldIndex >= 0) {
+            status = singleStatus(oldChanged[oldIndex], oldMoved[oldIndex], 'deleted');
+        } else {
+            status = singleStatus(newChanged[newIndex], newMoved[newIndex], 'inserted');
+        }
+        pairs.push({ status, oldNode: oldNodes[oldIndex], newNode: newNodes[newIndex], lineIndex });
+    });
+    
+    // 连续的删除和新增的块中，类型相同的按顺序配对为修改
+    const result: RenderedBlockPair[] = [];
+    let i = 0;
+    while (i < pairs.length) {
+        if (pairs[i].status !== 'deleted' && pairs[i].status !== 'inserted') {
+            result.push(pairs[i++]);
+            continue;
+        }
+        const deleted: RenderedBlockPair[] = [];
+        const inserted: RenderedBlockPair[] = [];
+        while (i < pairs.length && (pairs[i].status === 'deleted' || pairs[i].status === 'inserted')) {
+            (pairs[i].status === 'deleted' ? deleted : inserted).push(pairs[i++]);
+        }
+        let d = 0;
+        let n = 0;
+        while (d < deleted.length && n < inserted.length && deleted[d].oldNode!.type === inserted[n].newNode!.type) {
+            result.push({
+                status: 'edited',
+                oldNode: deleted[d].oldNode,
+                newNode: inserted[n].newNode,
+                lineIndex: Math.min(deleted[d].lineIndex, inserted[n].lineIndex)
+            });
+            d++;
+            n++;
+        }
+        result.push(...deleted.slice(d), ...inserted.slice(n));
+    }
+    return result;
+}
+
+/**
+ * 渲染一对块，修改的块按渲染后的文本比较并标记行内的删除和新增
+ */
+function renderBlockPair(pair: RenderedBlockPair, lines1: string[], lines2: string[], compareOptions: DiffCompareOptions = {}): { oldHtml: string; newHtml: string } {
+    const oldElement = pair.oldNode ? createRenderedBlock(toRenderableMarkdown(lines1.slice(pair.oldNode.start, pair.oldNode.end)), pair.status) : null;
+    const newElement = pair.newNode ? createRenderedBlock(toRenderableMarkdown(lines2.slice(pair.newNode.start, pair.newNode.end)), pair.status) : null;
+    if (pair.status === 'edited' && oldElement && newElement) {
+        const inlineDiff = computeInlineDiff(collectTextNodes(oldElement).text, collectTextNodes(newElement).text, compareOptions);
+        if (inlineDiff) {
+            wrapTextRanges(oldElement, toFragmentRanges(inlineDiff.oldFragments, 'removed', 'diff-rendered-removed'));
+            wrapTextRanges(newElement, toFragmentRanges(inlineDiff.newFragments, 'added', 'diff-rendered-added'));
+        }
+    }
+    return { oldHtml: oldElement?.outerHTML || '', newHtml: newElement?.outerHTML || '' };
+}
+
+/**
+ * 片段中指定类型的部分在拼接后文本中的范围
+ */
+function toFragmentRanges(fragments: InlineFragment[], type: InlineFragment['type'], className: string): Array<{ start: number; end: number; className: string }> {
+    const ranges: Array<{ start: number; end: number; className: string }> = [];
+    let offset = 0;
+    for (const fragment of fragments) {
+        if (fragment.type === type) {
+            ranges.push({ start: offset, end: offset + fragment.text.length, className });
+        }
+        offset += fragment.text.length;
+    }
+    return ranges;
+}
+
+let lute: any = null;
+
+/**
+ * 用思源的 Lute 把 Markdown 渲染为块 DOM，外层标记块的状态
+ * 不在思源中运行（没有 Lute）时显示源码
+ */
+function createRenderedBlock(markdown: string, status: BlockDiffStatus): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `protyle-wysiwyg diff-rendered-block diff-rendered-${status}`;
+    if (!lute && typeof window !== 'undefined' && window.Lute) {
+        lute = window.Lute.New();
+    }
+    if (lute) {
+        // 只用于展示，去掉块的可编辑属性
+        element.innerHTML = String(lute.Md2BlockDOM(markdown)).replace(/\scontenteditable="true"/g, '');
+    } else {
+        element.innerHTML = `<div class="diff-rendered-source">${escapeHtml(markdown)}</div>`;
+    }
+    return element;
+}
+
+/**
+ * 节点的源码行，去掉 IAL 及嵌套列表项的公共缩进，使其可以单独渲染
+ */
+function toRenderableMarkdown(source: string[]): string {
+    const lines = source
+        .filter(line => !isIdLine(line))
+        .map(line => line.replace(/\{:\s[^}]*\}/g, ''));
+    const leading = (line: string) => line.length - line.trimStart().length;
+    const indent = Math.min(...lines.filter(line => line.trim()).map(leading));
+    return lines.map(line => line.slice(Math.min(indent, leading(line)))).join('\n');
+}
+
+/**
+ * 生成修订差异HTML（修订模式）
+ * 两个文档合并为一篇显示，删除的文字加删除线，新增的文字加下划线，修改的行在行内标记
+ */
+export function generateInlineDiffHtml(doc1: any, doc2: any, options: DiffViewOptions): string {
+    const diffResult = resolveDiffResult(doc1, doc2, options);
+    const content = options.virtual
+        ? '<div class="diff-virtual-host" data-virtual-pane="unified"></div>'
+        : buildInlineDiffRows(diffResult, options).map(row => row.render()).join('');
+    return `
+        ${renderDiffStats(diffResult)}
+        <div class="inline-diff-container">${content}</div>
     `;
+}
+
+/**
+ * 生成修订模式的各行，不折叠未更改的行
+ */
+function buildInlineDiffRows(diffResult: DiffResult, options: DiffViewOptions): DiffRow[] {
+    const dimIdLines = (options.ialMode ?? DEFAULT_IAL_MODE) !== 'show';
+    const moveStarts = getMoveStarts(diffResult);
+    const rows: DiffRow[] = [];
+    diffResult.lines.forEach((line, i) => {
+        // 并入变更块的相同行只显示新文档一侧
+        if (line.absorbed && line.type === 'removed') {
+            return;
+        }
+        rows.push({
+            render: () => renderInlineLine(line, i, dimIdLines, moveStarts.get(i)),
+            lineIndex: i,
+            oldLineNumber: line.oldLineNumber,
+            newLineNumber: line.newLineNumber
+        });
+    });
+    return rows;
+}
+
+/**
+ * 生成修订模式的一行
+ */
+function renderInlineLine(line: DiffLine, i: number, dimIdLines: boolean, moveStart?: DiffMove): string {
+    let content: string;
+    let moveAttrs = '';
+    let moveLink = '';
+    const type = line.absorbed ? 'context' : line.type;
+    switch (type) {
+        case 'modified':
+            content = renderTrackedFragments(line.fragments && line.oldFragments
+                ? mergeInlineFragments(line.oldFragments, line.fragments)
+                : [{ type: 'removed', text: line.oldContent || '' }, { type: 'added', text: line.content }]);
+            break;
+        case 'removed':
+        case 'added':
+            content = renderTrackedFragments([{ type, text: line.content }]);
+            break;
+        case 'moved-from':
+        case 'moved-to': {
+            const side = line.type === 'moved-from' ? 'from' : 'to';
+            content = renderTrackedFragments([{ type: side === 'from' ? 'removed' : 'added', text: line.content }]);
+            moveAttrs = ` data-move-id="${line.moveId}" data-move-side="${side}"`;
+            // 移动块的第一行显示跳转到另一端的链接
+            if (moveStart) {
+                moveLink = renderMoveLink(moveStart, side === 'from' ? 'to' : 'from');
+            }
+            break;
+        }
+        default:
+            content = escapeHtml(line.content);
+    }
+    const idClass = line.isIdLine && dimIdLines ? ' inline-diff-id' : '';
+    return `<div class="inline-diff-line inline-diff-line-${type}${idClass}" data-line-index="${i}"${moveAttrs}>${content}${moveLink}</div>`;
+}
+
+/**
+ * 将修改行两侧的行内片段合并为一个序列：删除的片段在前，新增的片段在后，相同的部分只出现一次
+ * 两侧的相同部分因空白并入变更而不完全一致时，多出的空白按删除或新增处理
+ */
+function mergeInlineFragments(oldFragments: InlineFragment[], newFragments: InlineFragment[]): InlineFragment[] {
+    const merged: InlineFragment[] = [];
+    const oldQueue = oldFragments.map(fragment => ({ ...fragment }));
+    const newQueue = newFragments.map(fragment => ({ ...fragment }));
+    const take = (queue: InlineFragment[], length: number) => {
+        const text = queue[0].text.slice(0, length);
+        queue[0].text = queue[0].text.slice(length);
+        if (!queue[0].text) {
+            queue.shift();
+        }
+        return text;
+    };
+    while (oldQueue.length > 0 || newQueue.length > 0) {
+        const oldHead = oldQueue[0];
+        const newHead = newQueue[0];
+        if (oldHead && oldHead.type === 'removed') {
+            pushFragment(merged, 'removed', take(oldQueue, oldHead.text.length));
+        } else if (newHead && newHead.type === 'added') {
+            pushFragment(merged, 'added', take(newQueue, newHead.text.length));
+        } else if (oldHead && newHead) {
+            const oldChar = oldHead.text[0];
+            const newChar = newHead.text[0];
+            if (oldChar === newChar) {
+                take(oldQueue, 1);
+                pushFragment(merged, 'equal', take(newQueue, 1));
+            } else if (!oldChar.trim()) {
+                pushFragment(merged, 'removed', take(oldQueue, 1));
+            } else if (!newChar.trim()) {
+                pushFragment(merged, 'added', take(newQueue, 1));
+            } else {
+                // 无法对齐时其余部分整体作为删除和新增
+                pushFragment(merged, 'removed', oldQueue.map(fragment => fragment.text).join(''));
+                pushFragment(merged, 'added', newQueue.map(fragment => fragment.text).join(''));
+                break;
+            }
+        } else if (oldHead) {
+            pushFragment(merged, 'removed', take(oldQueue, oldHead.text.length));
+        } else {
+            pushFragment(merged, 'added', take(newQueue, newHead.text.length));
+        }
+    }
+    return merged;
+}
+
+/**
+ * 按修订的样式生成片段：删除的加删除线，新增的加下划线
+ */
+function renderTrackedFragments(fragments: InlineFragment[]): string {
+    return fragments.map(fragment => {
+        if (!fragment.text) {
+            return '';
+        }
+        const text = escapeHtml(fragment.text);
+        switch (fragment.type) {
+            case 'removed':
+                return `<del class="inline-diff-removed">${text}</del>`;
+            case 'added':
+                return `<ins class="inline-diff-added">${text}</ins>`;
+            default:
+                return text;
+        }
+    }).join('') || '&nbsp;';
+}
+
+/**
+ * 修订文档引用的来源文档
+ */
+export interface RedlineSource {
+    id: string;
+    title: string;
+    content: string;  // 计算差异时使用的文档内容，行号与差异结果一致
+}
+
+const REDLINE_BLOCK_PREFIX = /^(\s*(?:>\s?)*\s*(?:#{1,6}\s+|[-+*]\s+(?:\[[ xX]\]\s+)?|\d{1,9}[.)]\s+)?)/;
+
+/**
+ * 生成修订文档的 Markdown：开头是统计信息及两侧文档的链接，正文为合并后的文档，删除的文字为 ~~删除线~~，新增的文字为 ==高亮==
+ * 标题、列表、引用等块标记不加标记；表格逐个单元格标记；代码块中无法加标记，保留新文档的内容，删除的代码块只留一行提示
+ * 相同的行写入新文档中的原文：忽略大小写、空白或按 Markdown 块比较时两侧的文本可能不同
+ * IAL 行不写入，新文档中的块使用新的 ID
+ */
+export function generateRedlineMarkdown(diffResult: DiffResult, oldDoc: RedlineSource, newDoc: RedlineSource): string {
+    const stats = diffResult.stats;
+    const link = (doc: RedlineSource) => `[${doc.title.replace(/([\[\]])/g, '\\$1')}](siyuan://blocks/${doc.id})`;
+    const header = [
+        `> ${t("docDiff.redline.summaryTitle")}`,
+        '>',
+        `> ${t("docDiff.redline.oldDoc")}: ${link(oldDoc)}`,
+        `> ${t("docDiff.redline.newDoc")}: ${link(newDoc)}`,
+        `> ${t("docDiff.redline.stats", {
+            additions: String(stats.additions),
+            deletions: String(stats.deletions),
+            modifications: String(stats.modifications),
+            moves: String(stats.moves)
+        })}`,
+        `> ${t("docDiff.redline.legend")}`,
+        `> ${t("docDiff.redline.createdAt", { time: new Date().toLocaleString() })}`,
+        '',
+        '---',
+        ''
+    ];
     
-    return diffHtml;
+    // 上下文行换成新文档中的行，差异结果中没有的新文档行按上下文行补上，只在旧文档中的上下文行（被忽略的空行）不写入
+    const newLines = normalizeLineEndings(newDoc.content || '').split('\n');
+    const lines: DiffLine[] = [];
+    let nextNew = 1;
+    const pushNewLines = (limit: number) => {
+        for (; nextNew < limit; nextNew++) {
+            const text = newLines[nextNew - 1];
+            lines.push({ type: 'context', newLineNumber: nextNew, content: text, isIdLine: isIdLine(text) });
+        }
+    };
+    for (const line of diffResult.lines) {
+        if (line.newLineNumber !== undefined) {
+            pushNewLines(line.newLineNumber);
+            nextNew = Math.max(nextNew, line.newLineNumber + 1);
+        }
+        if (line.absorbed) {
+            // 并入变更块的相同行只写入新文档一侧
+            if (line.type === 'added') {
+                lines.push({ ...line, type: 'context' });
+            }
+        } else if (line.type !== 'context') {
+            lines.push(line);
+        } else if (line.newLineNumber !== undefined) {
+            const text = newLines[line.newLineNumber - 1] ?? line.content;
+            lines.push({ ...line, content: text, isIdLine: isIdLine(text) });
+        }
+    }
+    pushNewLines(newLines.length + 1);
+    
+    const body: string[] = [];
+    let inFence = false;  // 位于新文档一侧的代码块中
+    let inRemovedFence = false;  // 位于被删除的代码块中
+    for (const line of lines) {
+        if (line.isIdLine) {
+            continue;
+        }
+        const isRemoved = line.type === 'removed' || line.type === 'moved-from';
+        const content = line.content.replace(/\{:\s[^}]*\}/g, '');
+        if (isRemoved && !inFence && !inRemovedFence && !content.trim()) {
+            continue;
+        }
+        const isFence = FENCE_PATTERN.test(content);
+        if (inRemovedFence) {
+            inRemovedFence = !(isRemoved && isFence);
+            continue;
+        }
+        if (inFence) {
+            if (!isRemoved) {
+                body.push(content);
+                inFence = !isFence;
+            }
+            continue;
+        }
+        if (isFence) {
+            if (isRemoved) {
+                // 提示单独成段，避免并入上方的表格或段落
+                if (body.length > 0 && body[body.length - 1].trim()) {
+                    body.push('');
+                }
+                body.push(wrapRedlineMark(t("docDiff.redline.removedCode"), '~~'));
+                inRemovedFence = true;
+            } else {
+                body.push(content);
+                inFence = true;
+            }
+            continue;
+        }
+        body.push(redlineLine(line, content));
+    }
+    return [...header, ...body].join('\n');
+}
+
+/**
+ * 生成修订文档中的一行
+ */
+function redlineLine(line: DiffLine, content: string): string {
+    const oldContent = (line.oldContent || '').replace(/\{:\s[^}]*\}/g, '');
+    if (content.trim().startsWith('|')) {
+        return redlineTableRow(line, content, oldContent);
+    }
+    const prefix = content.match(REDLINE_BLOCK_PREFIX)?.[1] || '';
+    switch (line.type) {
+        case 'removed':
+        case 'moved-from':
+            return prefix + wrapRedlineMark(content.slice(prefix.length), '~~');
+        case 'added':
+        case 'moved-to':
+            return prefix + wrapRedlineMark(content.slice(prefix.length), '==');
+        case 'modified': {
+            const merged = line.oldFragments && line.fragments ? mergeInlineFragments(line.oldFragments, line.fragments) : [];
+            // 块标记未改变时只标记其后的内容，块标记有变化时按整体删除和新增处理
+            if (merged[0]?.type === 'equal' && merged[0].text.startsWith(prefix)) {
+                merged[0] = { type: 'equal', text: merged[0].text.slice(prefix.length) };
+                return prefix + merged.map(fragment => fragment.type === 'equal'
+                    ? fragment.text
+                    : wrapRedlineMark(fragment.text, fragment.type === 'removed' ? '~~' : '==')).join('');
+            }
+            const oldPrefix = oldContent.match(REDLINE_BLOCK_PREFIX)?.[1] || '';
+            return prefix + wrapRedlineMark(oldContent.slice(oldPrefix.length), '~~') + wrapRedlineMark(content.slice(prefix.length), '==');
+        }
+        default:
+            return content;
+    }
+}
+
+/**
+ * 生成修订文档中的表格行，逐个单元格标记，分隔行保持不变
+ */
+function redlineTableRow(line: DiffLine, content: string, oldContent: string): string {
+    if (TABLE_DELIMITER_PATTERN.test(content)) {
+        return content;
+    }
+    const isRemoved = line.type === 'removed' || line.type === 'moved-from';
+    const isAdded = line.type === 'added' || line.type === 'moved-to';
+    if (line.type === 'context') {
+        return content;
+    }
+    const newCells = isRemoved ? [] : splitTableRow(content);
+    const oldCells = isAdded ? [] : splitTableRow(line.type === 'modified' ? oldContent : content);
+    const cells: string[] = [];
+    for (let i = 0; i < Math.max(oldCells.length, newCells.length); i++) {
+        const oldCell = oldCells[i] ?? '';
+        const newCell = newCells[i] ?? '';
+        if (line.type === 'modified' && oldCell === newCell) {
+            cells.push(newCell);
+        } else {
+            cells.push(wrapRedlineMark(oldCell, '~~') + wrapRedlineMark(newCell, '=='));
+        }
+    }
+    return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * 用标记包裹文本，首尾空白放在标记之外，否则 Markdown 不识别；纯空白的文本删除时不保留
+ */
+function wrapRedlineMark(text: string, marker: '~~' | '=='): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) {
+        return marker === '~~' ? '' : text;
+    }
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
 }
 
 /**
@@ -524,6 +4584,25 @@ function processLineContent(content: string): string {
     return processedContent;
 }
 
+/**
+ * 处理带行内差异片段的行内容，新增/删除的片段用高亮标记包裹
+ */
+function processLineFragments(fragments: InlineFragment[]): string {
+    // 外层包裹一个行内容器，避免片段在 flex 布局中被拆成多列
+    const html = fragments.map(fragment => {
+        const text = escapeHtml(fragment.text);
+        switch (fragment.type) {
+            case 'added':
+                return `<span class="diff-inline-added">${text}</span>`;
+            case 'removed':
+                return `<span class="diff-inline-removed">${text}</span>`;
+            default:
+                return text;
+        }
+    }).join('');
+    return `<span class="diff-inline-text">${html}</span>`;
+}
+
 /**
  * 生成可交换的差异视图HTML
  */
@@ -695,6 +4774,14 @@ export function generateSwappableDiffHtml(doc1: any, doc2: any, swapCallback?: s
                 color: #d73a49;
                 font-weight: 600;
             }
+            .diff-stat-modifications {
+                color: #b08800;
+                font-weight: 600;
+            }
+            .diff-stat-moves {
+                color: #6f42c1;
+                font-weight: 600;
+            }
             .diff-content {
                 background: #fff;
                 overflow-x: auto;
@@ -850,6 +4937,141 @@ export function generateSwappableDiffHtml(doc1: any, doc2: any, swapCallback?: s
             .diff-line-id.diff-line-removed .diff-line-number {
                 background: #ffeef0;
             }
+            /* 修改行成对显示，左侧用黄色标记 */
+            .diff-line-modified {
+                box-shadow: inset 3px 0 0 #dbab09;
+            }
+            .diff-line-modified-new {
+                border-bottom: 1px dashed #f1e05a;
+            }
+            /* 移动的内容使用紫色，两端可互相跳转 */
+            .diff-line-moved {
+                background: #f5f0ff;
+                color: #24292e;
+            }
+            .diff-line-moved .diff-line-number {
+                background: #e6dcfd;
+            }
+            .diff-line-id.diff-line-moved {
+                color: #6a737d;
+            }
+            .diff-move-link {
+                margin-left: 12px;
+                color: #6f42c1;
+                font-size: 11px;
+                white-space: nowrap;
+                cursor: pointer;
+                user-select: none;
+            }
+            .diff-move-link:hover {
+                text-decoration: underline;
+            }
+            .diff-move-flash {
+                outline: 2px solid #8a63d2;
+                outline-offset: -2px;
+            }
+            /* 按块比较时的块状态标记 */
+            .diff-block-summary {
+                margin-left: 16px;
+                color: #586069;
+            }
+            .diff-block-badge {
+                display: inline-block;
+                margin-left: 8px;
+                padding: 0 6px;
+                border-radius: 10px;
+                font-size: 11px;
+                line-height: 16px;
+                white-space: nowrap;
+                user-select: none;
+                background: #f1f8ff;
+                color: #0366d6;
+            }
+            .diff-block-inserted {
+                background: #dcffe4;
+                color: #22863a;
+            }
+            .diff-block-deleted {
+                background: #ffdce0;
+                color: #cb2431;
+            }
+            .diff-block-edited {
+                background: #fff5b1;
+                color: #735c0f;
+            }
+            .diff-block-moved {
+                background: #e6dcfd;
+                color: #5a32a3;
+            }
+            .diff-block-unchanged {
+                background: #f6f8fa;
+                color: #586069;
+            }
+            .diff-node-label {
+                margin-left: 6px;
+                color: #586069;
+                font-size: 11px;
+                white-space: nowrap;
+                user-select: none;
+            }
+            /* 表格的单元格级差异 */
+            .diff-line-table {
+                display: block;
+                padding: 4px 8px 4px 100px;
+            }
+            .diff-table-block {
+                overflow-x: auto;
+                padding: 4px 0;
+            }
+            .diff-table {
+                border-collapse: collapse;
+                font-size: inherit;
+            }
+            .diff-table th,
+            .diff-table td {
+                border: 1px solid #d1d9e0;
+                padding: 2px 8px;
+                vertical-align: top;
+                white-space: pre-wrap;
+            }
+            .diff-table th {
+                background: #f6f8fa;
+                font-weight: 600;
+            }
+            .diff-table .diff-table-gutter {
+                border: none;
+                color: #959da5;
+                text-align: right;
+                font-size: 11px;
+                background: transparent;
+            }
+            .diff-table .diff-cell-changed {
+                background: #fff8c5;
+            }
+            .diff-table .diff-cell-added,
+            .diff-table .diff-col-added {
+                background: #e6ffed;
+            }
+            .diff-table .diff-cell-removed,
+            .diff-table .diff-col-removed {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-table-row-added td:not(.diff-table-gutter) {
+                background: #e6ffed;
+            }
+            .diff-table-row-removed td:not(.diff-table-gutter) {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-cell-old {
+                color: #6a737d;
+            }
+            .diff-cell-new {
+                border-top: 1px dashed #d1d9e0;
+            }
             .diff-line-context {
                 background: #fff;
                 color: #24292e;
@@ -1095,6 +5317,14 @@ export function generateFullDiffHtml(doc1: any, doc2: any): string {
                 color: #d73a49;
                 font-weight: 600;
             }
+            .diff-stat-modifications {
+                color: #b08800;
+                font-weight: 600;
+            }
+            .diff-stat-moves {
+                color: #6f42c1;
+                font-weight: 600;
+            }
             .diff-content {
                 background: #fff;
                 overflow-x: auto;
@@ -1191,6 +5421,141 @@ export function generateFullDiffHtml(doc1: any, doc2: any): string {
             .diff-line-id.diff-line-removed .diff-line-number {
                 background: #ffeef0;
             }
+            /* 修改行成对显示，左侧用黄色标记 */
+            .diff-line-modified {
+                box-shadow: inset 3px 0 0 #dbab09;
+            }
+            .diff-line-modified-new {
+                border-bottom: 1px dashed #f1e05a;
+            }
+            /* 移动的内容使用紫色，两端可互相跳转 */
+            .diff-line-moved {
+                background: #f5f0ff;
+                color: #24292e;
+            }
+            .diff-line-moved .diff-line-number {
+                background: #e6dcfd;
+            }
+            .diff-line-id.diff-line-moved {
+                color: #6a737d;
+            }
+            .diff-move-link {
+                margin-left: 12px;
+                color: #6f42c1;
+                font-size: 11px;
+                white-space: nowrap;
+                cursor: pointer;
+                user-select: none;
+            }
+            .diff-move-link:hover {
+                text-decoration: underline;
+            }
+            .diff-move-flash {
+                outline: 2px solid #8a63d2;
+                outline-offset: -2px;
+            }
+            /* 按块比较时的块状态标记 */
+            .diff-block-summary {
+                margin-left: 16px;
+                color: #586069;
+            }
+            .diff-block-badge {
+                display: inline-block;
+                margin-left: 8px;
+                padding: 0 6px;
+                border-radius: 10px;
+                font-size: 11px;
+                line-height: 16px;
+                white-space: nowrap;
+                user-select: none;
+                background: #f1f8ff;
+                color: #0366d6;
+            }
+            .diff-block-inserted {
+                background: #dcffe4;
+                color: #22863a;
+            }
+            .diff-block-deleted {
+                background: #ffdce0;
+                color: #cb2431;
+            }
+            .diff-block-edited {
+                background: #fff5b1;
+                color: #735c0f;
+            }
+            .diff-block-moved {
+                background: #e6dcfd;
+                color: #5a32a3;
+            }
+            .diff-block-unchanged {
+                background: #f6f8fa;
+                color: #586069;
+            }
+            .diff-node-label {
+                margin-left: 6px;
+                color: #586069;
+                font-size: 11px;
+                white-space: nowrap;
+                user-select: none;
+            }
+            /* 表格的单元格级差异 */
+            .diff-line-table {
+                display: block;
+                padding: 4px 8px 4px 100px;
+            }
+            .diff-table-block {
+                overflow-x: auto;
+                padding: 4px 0;
+            }
+            .diff-table {
+                border-collapse: collapse;
+                font-size: inherit;
+            }
+            .diff-table th,
+            .diff-table td {
+                border: 1px solid #d1d9e0;
+                padding: 2px 8px;
+                vertical-align: top;
+                white-space: pre-wrap;
+            }
+            .diff-table th {
+                background: #f6f8fa;
+                font-weight: 600;
+            }
+            .diff-table .diff-table-gutter {
+                border: none;
+                color: #959da5;
+                text-align: right;
+                font-size: 11px;
+                background: transparent;
+            }
+            .diff-table .diff-cell-changed {
+                background: #fff8c5;
+            }
+            .diff-table .diff-cell-added,
+            .diff-table .diff-col-added {
+                background: #e6ffed;
+            }
+            .diff-table .diff-cell-removed,
+            .diff-table .diff-col-removed {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-table-row-added td:not(.diff-table-gutter) {
+                background: #e6ffed;
+            }
+            .diff-table-row-removed td:not(.diff-table-gutter) {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-cell-old {
+                color: #6a737d;
+            }
+            .diff-cell-new {
+                border-top: 1px dashed #d1d9e0;
+            }
             .diff-line-context {
                 background: #fff;
                 color: #24292e;
@@ -1204,6 +5569,143 @@ export function generateFullDiffHtml(doc1: any, doc2: any): string {
         </style>
     `;
 }
+/**
+ * 生成工具栏中的比较选项开关
+ */
+function renderCompareOptions(compareOptions: DiffCompareOptions, toggleFunction: string): string {
+    const items = COMPARE_OPTION_KEYS.map(key => `
+        <label class="diff-option" title="${escapeHtml(t(`docDiff.compareOptions.${key}Tooltip`))}">
+            <input type="checkbox" ${compareOptions[key] ? 'checked' : ''} onchange="${toggleFunction}('${key}')">
+            ${escapeHtml(t(`docDiff.compareOptions.${key}`))}
+        </label>
+    `).join('');
+    
+    return `
+        <div class="diff-toolbar-group diff-compare-options">
+            <span class="diff-toolbar-label">${escapeHtml(t("docDiff.compareOptions.title"))}</span>
+            ${items}
+        </div>
+    `;
+}
+
+/**
+ * 生成工具栏中的下拉框，文本取自 docDiff.<name> 下的 title、tooltip 及各选项值
+ */
+function renderToolbarSelect(name: string, values: string[], selected: string, switchFunction: string): string {
+    const items = values.map(value => `
+        <option value="${value}" ${value === selected ? 'selected' : ''}>${escapeHtml(t(`docDiff.${name}.${value}`))}</option>
+    `).join('');
+    
+    return `
+        <div class="diff-toolbar-group" title="${escapeHtml(t(`docDiff.${name}.tooltip`))}">
+            <span class="diff-toolbar-label">${escapeHtml(t(`docDiff.${name}.title`))}</span>
+            <select class="diff-toolbar-select" onchange="${switchFunction}(this.value)">${items}</select>
+        </div>
+    `;
+}
+
+/**
+ * 生成工具栏中的变更导航按钮及位置指示
+ */
+function renderChangeNavigation(diffResult: DiffResult, navigation: NonNullable<DiffViewOptions['changeNavigation']>, navigateFunction: string): string {
+    const icons: Record<ChangeNavigation, string> = { first: '⤒', previous: '↑', next: '↓', last: '⤓' };
+    const buttons = (Object.keys(icons) as ChangeNavigation[]).map(target => {
+        const hotkey = navigation.hotkeys?.[target];
+        const title = t(`docDiff.navigation.${target}`) + (hotkey ? ` (${hotkey})` : '');
+        return `<button class="diff-nav-button" onclick="${navigateFunction}('${target}')" title="${escapeHtml(title)}">${icons[target]}</button>`;
+    }).join('');
+    const total = findChangeBlocks(diffResult).length;
+    return `
+        <div class="diff-toolbar-group diff-change-navigation">
+            ${buttons}
+            <span class="diff-change-counter">${escapeHtml(formatChangeCounter(navigation.current, total))}</span>
+        </div>
+    `;
+}
+
+/**
+ * 概览条上的一段变更，位置和高度为占全部差异行的百分比
+ */
+export interface OverviewMark {
+    type: 'added' | 'removed' | 'modified' | 'moved';
+    lineIndex: number;  // 该段第一行在差异结果中的序号
+    top: number;
+    height: number;
+}
+
+/**
+ * 将差异结果中连续的同类变更行合并为概览条上的标记
+ */
+export function buildOverviewMarks(diffResult: DiffResult): OverviewMark[] {
+    const lines = diffResult.lines;
+    const markType = (line: DiffLine) => line.type === 'moved-from' || line.type === 'moved-to' ? 'moved' : line.type;
+    const marks: OverviewMark[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const type = markType(lines[i]);
+        let end = i + 1;
+        while (end < lines.length && markType(lines[end]) === type) {
+            end++;
+        }
+        if (type !== 'context') {
+            marks.push({
+                type,
+                lineIndex: i,
+                top: i / lines.length * 100,
+                height: (end - i) / lines.length * 100
+            });
+        }
+        i = end;
+    }
+    return marks;
+}
+
+/**
+ * 生成差异内容旁的变更概览条，点击标记时以差异行序号调用 jumpFunction
+ * 视口指示框 .diff-overview-viewport 的位置由调用方随滚动更新
+ */
+function renderOverviewRuler(diffResult: DiffResult, jumpFunction: string): string {
+    const marks = buildOverviewMarks(diffResult).map(mark => `
+        <div class="diff-overview-mark diff-overview-${mark.type}"
+             style="top: ${mark.top}%; height: ${mark.height}%;"
+             title="${escapeHtml(t(`docDiff.overview.${mark.type}`))}"
+             onclick="${jumpFunction}(${mark.lineIndex})"></div>
+    `).join('');
+    return `
+        <div class="diff-overview-ruler" title="${escapeHtml(t("docDiff.overview.title"))}">
+            <div class="diff-overview-viewport"></div>
+            ${marks}
+        </div>
+    `;
+}
+
+/**
+ * 生成工具栏中的开关，文本取自 docDiff.<name> 下的 title 和 tooltip
+ */
+function renderToolbarToggle(name: string, checked: boolean, toggleFunction: string): string {
+    return `
+        <div class="diff-toolbar-group">
+            <label class="diff-option" title="${escapeHtml(t(`docDiff.${name}.tooltip`))}">
+                <input type="checkbox" ${checked ? 'checked' : ''} onchange="${toggleFunction}()">
+                ${escapeHtml(t(`docDiff.${name}.title`))}
+            </label>
+        </div>
+    `;
+}
+
+/**
+ * 支持模式切换的视图选项：合并模式下可撤回行，并排模式下可编辑
+ */
+function toModeViewOptions(currentMode: DiffViewMode, viewOptions?: Partial<DiffViewOptions>): DiffViewOptions {
+    return {
+        mode: currentMode,
+        enableLineActions: currentMode === DiffViewMode.UNIFIED,
+        enableEditing: currentMode === DiffViewMode.SIDE_BY_SIDE,
+        showLineNumbers: true,
+        ...viewOptions
+    };
+}
+
 /**
  * 生成支持模式切换的差异视图HTML
  */
@@ -1216,14 +5718,18 @@ export function generateModeSwitchableDiffHtml(
         revertCallback?: string;
         saveCallback?: string;
         modeChangeCallback?: string;
-    }
+        compareOptionCallback?: string;
+        ialModeCallback?: string;
+        granularityCallback?: string;
+        algorithmCallback?: string;
+        syncScrollCallback?: string;
+        overviewCallback?: string;
+        changeNavigationCallback?: string;
+        redlineCallback?: string;
+    },
+    viewOptions?: Partial<DiffViewOptions>
 ): string {
-    const options: DiffViewOptions = {
-        mode: currentMode,
-        enableLineActions: currentMode === DiffViewMode.UNIFIED,
-        enableEditing: currentMode === DiffViewMode.SIDE_BY_SIDE,
-        showLineNumbers: true
-    };
+    const options = toModeViewOptions(currentMode, viewOptions);
     
     const diffContent = generateDiffHtml(doc1, doc2, options);
     
@@ -1231,6 +5737,14 @@ export function generateModeSwitchableDiffHtml(
     const revertFunction = callbacks?.revertCallback || 'window.revertChanges && window.revertChanges()';
     const saveFunction = callbacks?.saveCallback || 'window.saveChanges && window.saveChanges()';
     const modeChangeFunction = callbacks?.modeChangeCallback || 'window.switchDiffMode && window.switchDiffMode';
+    const compareOptionFunction = callbacks?.compareOptionCallback || 'window.toggleCompareOption && window.toggleCompareOption';
+    const ialModeFunction = callbacks?.ialModeCallback || 'window.switchIalMode && window.switchIalMode';
+    const granularityFunction = callbacks?.granularityCallback || 'window.switchDiffGranularity && window.switchDiffGranularity';
+    const algorithmFunction = callbacks?.algorithmCallback || 'window.switchDiffAlgorithm && window.switchDiffAlgorithm';
+    const syncScrollFunction = callbacks?.syncScrollCallback || 'window.toggleSyncScroll && window.toggleSyncScroll';
+    const overviewFunction = callbacks?.overviewCallback || 'window.jumpToDiffLine && window.jumpToDiffLine';
+    const changeNavigationFunction = callbacks?.changeNavigationCallback || 'window.navigateDiffChange && window.navigateDiffChange';
+    const redlineFunction = callbacks?.redlineCallback || 'window.createRedline && window.createRedline()';
     
     return `
         <div class="diff-header">
@@ -1257,6 +5771,22 @@ export function generateModeSwitchableDiffHtml(
                             </svg>
                             并排
                         </button>
+                        <button class="diff-mode-button ${currentMode === DiffViewMode.RENDERED ? 'active' : ''}" 
+                                onclick="${modeChangeFunction}('${DiffViewMode.RENDERED}')" 
+                                title="${escapeHtml(t("docDiff.renderedMode.tooltip"))}">
+                            <svg width="16" height="16" viewBox="0 0 1024 1024" fill="currentColor">
+                                <path d="M128 128h768v768H128V128z m85.333 85.333v597.334h597.334V213.333H213.333zM298.667 298.667h426.666V384H298.667v-85.333z m0 170.666h256v85.334h-256v-85.334z m0 170.667h426.666v85.333H298.667V640z"/>
+                            </svg>
+                            ${escapeHtml(t("docDiff.renderedMode.title"))}
+                        </button>
+                        <button class="diff-mode-button ${currentMode === DiffViewMode.INLINE ? 'active' : ''}" 
+                                onclick="${modeChangeFunction}('${DiffViewMode.INLINE}')" 
+                                title="${escapeHtml(t("docDiff.inlineMode.tooltip"))}">
+                            <svg width="16" height="16" viewBox="0 0 1024 1024" fill="currentColor">
+                                <path d="M128 213.333h768v85.334H128v-85.334z m0 256h341.333v85.334H128v-85.334z m426.667 0H896v85.334H554.667v-85.334zM128 768h768v85.333H128V768z m0-85.333h469.333V640H128v42.667z"/>
+                            </svg>
+                            ${escapeHtml(t("docDiff.inlineMode.title"))}
+                        </button>
                     </div>
                     ${currentMode === DiffViewMode.SIDE_BY_SIDE ? 
                         `<button class="diff-action-button diff-save-button" onclick="${saveFunction}" title="保存更改">
@@ -1272,6 +5802,13 @@ export function generateModeSwitchableDiffHtml(
                         </svg>
                         撤回
                     </button>
+                    <button class="diff-action-button diff-redline-button" onclick="${redlineFunction}" title="${escapeHtml(t("docDiff.redline.tooltip"))}">
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                            <path d="M14 3H6a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"/>
+                            <path d="M14 3v6h6M8 13h8M8 17h5"/>
+                        </svg>
+                        ${escapeHtml(t("docDiff.redline.button"))}
+                    </button>
                     <button class="diff-swap-button" onclick="${swapFunction}" title="交换文档">
                         <svg width="16" height="16" viewBox="0 0 1024 1024" fill="currentColor">
                             <path d="M162.909091 449.163636h681.890909c34.909091 0 65.163636-20.945455 76.8-51.2s6.981818-67.490909-16.290909-93.090909l-146.618182-153.6c-27.927273-27.927273-69.818182-27.927273-97.745454-2.327272-27.927273 25.6-27.927273 69.818182-2.327273 97.745454l58.181818 60.509091H162.909091c-39.563636 0-69.818182 30.254545-69.818182 69.818182s32.581818 72.145455 69.818182 72.145454zM861.090909 574.836364H179.2c-34.909091 0-65.163636 20.945455-76.8 51.2s-6.981818 67.490909 16.290909 93.090909l146.618182 153.6c13.963636 13.963636 32.581818 20.945455 51.2 20.945454 16.290909 0 34.909091-6.981818 48.872727-18.618182 27.927273-25.6 27.927273-69.818182 2.327273-97.745454l-58.181818-60.509091H861.090909c39.563636 0 69.818182-30.254545 69.818182-69.818182s-32.581818-72.145455-69.818182-72.145454z" p-id="5917" fill="#1296db"/>
@@ -1283,31 +5820,105 @@ export function generateModeSwitchableDiffHtml(
                     <span class="diff-file-name">${escapeHtml(doc2.title)}</span>
                 </div>
             </div>
+            <div class="diff-toolbar">
+                ${options.changeNavigation && options.diffResult ? renderChangeNavigation(options.diffResult, options.changeNavigation, changeNavigationFunction) : ''}
+                ${renderCompareOptions(options.compareOptions || {}, compareOptionFunction)}
+                ${options.granularity ? renderToolbarSelect('granularity', options.granularityOptions || ['line', 'block'], options.granularity, granularityFunction) : ''}
+                ${options.algorithm ? renderToolbarSelect('algorithm', ['myers', 'patience', 'histogram'], options.algorithm, algorithmFunction) : ''}
+                ${(currentMode === DiffViewMode.SIDE_BY_SIDE || currentMode === DiffViewMode.RENDERED) && options.syncScroll !== undefined ? renderToolbarToggle('syncScroll', options.syncScroll, syncScrollFunction) : ''}
+                ${options.ialMode ? renderToolbarSelect('ialMode', ['show', 'dim', 'ignore'], options.ialMode, ialModeFunction) : ''}
+            </div>
         </div>
-        <div class="diff-content">
-            ${diffContent}
-        </div>
+        ${options.overview && options.diffResult ? `
+            <div class="diff-body">
+                <div class="diff-content">
+                    ${diffContent}
+                </div>
+                ${renderOverviewRuler(options.diffResult, overviewFunction)}
+            </div>
+        ` : `
+            <div class="diff-content">
+                ${diffContent}
+            </div>
+        `}
         <style>
             .doc-diff-container {
                 font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace;
                 font-size: 12px;
-                line-height: 1.4;
+                line-height: 1.4;
+                background: #fff;
+            }
+            .diff-header {
+                background: #f6f8fa;
+                border-bottom: 1px solid #d1d9e0;
+                padding: 8px 16px;
+                position: sticky;
+                top: 0;
+                z-index: 1;
+            }
+            .diff-file-header {
+                display: flex;
+                align-items: center;
+                justify-content: flex-start;
+                gap: 0;
+                position: relative;
+            }
+            .diff-toolbar {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: center;
+                gap: 12px;
+                padding: 6px 16px 0;
+                font-size: 12px;
+                color: #586069;
+            }
+            .diff-toolbar-group {
+                display: inline-flex;
+                align-items: center;
+                gap: 8px;
+            }
+            .diff-toolbar-label {
+                font-weight: 600;
+            }
+            .diff-change-navigation {
+                gap: 2px;
+            }
+            .diff-nav-button {
+                background: #fff;
+                border: 1px solid #d1d9e0;
+                border-radius: 4px;
+                padding: 0 6px;
+                min-height: 22px;
+                cursor: pointer;
+                color: #586069;
+                font-size: 12px;
+            }
+            .diff-nav-button:hover {
+                background: #e1e4e8;
+                color: #24292e;
+            }
+            .diff-change-counter {
+                margin-left: 6px;
+                white-space: nowrap;
+            }
+            .diff-toolbar-select {
+                font-size: 12px;
+                padding: 1px 4px;
+                border: 1px solid #d1d9e0;
+                border-radius: 4px;
                 background: #fff;
+                color: #24292e;
             }
-            .diff-header {
-                background: #f6f8fa;
-                border-bottom: 1px solid #d1d9e0;
-                padding: 8px 16px;
-                position: sticky;
-                top: 0;
-                z-index: 1;
-            }
-            .diff-file-header {
-                display: flex;
+            .diff-option {
+                display: inline-flex;
                 align-items: center;
-                justify-content: flex-start;
-                gap: 0;
-                position: relative;
+                gap: 4px;
+                cursor: pointer;
+                user-select: none;
+            }
+            .diff-option input {
+                margin: 0;
+                cursor: pointer;
             }
             .diff-action-buttons {
                 display: flex;
@@ -1406,6 +6017,16 @@ export function generateModeSwitchableDiffHtml(
                 border-color: #ffa39e;
                 color: #a8071a;
             }
+            .diff-redline-button {
+                background: #fffbe6;
+                border-color: #ffe58f;
+                color: #ad6800;
+            }
+            .diff-redline-button:hover {
+                background: #fff1b8;
+                border-color: #ffd666;
+                color: #874d00;
+            }
             .diff-swap-button {
                 min-width: 28px;
                 padding: 6px;
@@ -1454,6 +6075,14 @@ export function generateModeSwitchableDiffHtml(
                 color: #d73a49;
                 font-weight: 600;
             }
+            .diff-stat-modifications {
+                color: #b08800;
+                font-weight: 600;
+            }
+            .diff-stat-moves {
+                color: #6f42c1;
+                font-weight: 600;
+            }
             .diff-content {
                 background: #fff;
                 overflow-x: auto;
@@ -1600,10 +6229,191 @@ export function generateModeSwitchableDiffHtml(
             .diff-line-id.diff-line-removed .diff-line-number {
                 background: #ffeef0;
             }
+            /* 修改行成对显示，左侧用黄色标记 */
+            .diff-line-modified {
+                box-shadow: inset 3px 0 0 #dbab09;
+            }
+            .diff-line-modified-new {
+                border-bottom: 1px dashed #f1e05a;
+            }
+            /* 移动的内容使用紫色，两端可互相跳转 */
+            .diff-line-moved {
+                background: #f5f0ff;
+                color: #24292e;
+            }
+            .diff-line-moved .diff-line-number {
+                background: #e6dcfd;
+            }
+            .diff-line-id.diff-line-moved {
+                color: #6a737d;
+            }
+            .diff-move-link {
+                margin-left: 12px;
+                color: #6f42c1;
+                font-size: 11px;
+                white-space: nowrap;
+                cursor: pointer;
+                user-select: none;
+            }
+            .diff-move-link:hover {
+                text-decoration: underline;
+            }
+            .diff-move-flash {
+                outline: 2px solid #8a63d2;
+                outline-offset: -2px;
+            }
+            /* 按块比较时的块状态标记 */
+            .diff-block-summary {
+                margin-left: 16px;
+                color: #586069;
+            }
+            .diff-block-badge {
+                display: inline-block;
+                margin-left: 8px;
+                padding: 0 6px;
+                border-radius: 10px;
+                font-size: 11px;
+                line-height: 16px;
+                white-space: nowrap;
+                user-select: none;
+                background: #f1f8ff;
+                color: #0366d6;
+            }
+            .diff-block-inserted {
+                background: #dcffe4;
+                color: #22863a;
+            }
+            .diff-block-deleted {
+                background: #ffdce0;
+                color: #cb2431;
+            }
+            .diff-block-edited {
+                background: #fff5b1;
+                color: #735c0f;
+            }
+            .diff-block-moved {
+                background: #e6dcfd;
+                color: #5a32a3;
+            }
+            .diff-block-unchanged {
+                background: #f6f8fa;
+                color: #586069;
+            }
+            .diff-node-label {
+                margin-left: 6px;
+                color: #586069;
+                font-size: 11px;
+                white-space: nowrap;
+                user-select: none;
+            }
+            /* 表格的单元格级差异 */
+            .diff-line-table {
+                display: block;
+                padding: 4px 8px 4px 100px;
+            }
+            .diff-table-block {
+                overflow-x: auto;
+                padding: 4px 0;
+            }
+            .diff-table {
+                border-collapse: collapse;
+                font-size: inherit;
+            }
+            .diff-table th,
+            .diff-table td {
+                border: 1px solid #d1d9e0;
+                padding: 2px 8px;
+                vertical-align: top;
+                white-space: pre-wrap;
+            }
+            .diff-table th {
+                background: #f6f8fa;
+                font-weight: 600;
+            }
+            .diff-table .diff-table-gutter {
+                border: none;
+                color: #959da5;
+                text-align: right;
+                font-size: 11px;
+                background: transparent;
+            }
+            .diff-table .diff-cell-changed {
+                background: #fff8c5;
+            }
+            .diff-table .diff-cell-added,
+            .diff-table .diff-col-added {
+                background: #e6ffed;
+            }
+            .diff-table .diff-cell-removed,
+            .diff-table .diff-col-removed {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-table-row-added td:not(.diff-table-gutter) {
+                background: #e6ffed;
+            }
+            .diff-table-row-removed td:not(.diff-table-gutter) {
+                background: #ffeef0;
+                color: #6a737d;
+                text-decoration: line-through;
+            }
+            .diff-cell-old {
+                color: #6a737d;
+            }
+            .diff-cell-new {
+                border-top: 1px dashed #d1d9e0;
+            }
             .diff-line-context {
                 background: #fff;
                 color: #24292e;
             }
+            .diff-line-collapsed {
+                background: #f1f8ff;
+                color: #586069;
+            }
+            .diff-line-collapsed .diff-line-number {
+                background: #dbedff;
+            }
+            .diff-collapsed-content {
+                align-items: center;
+                gap: 8px;
+            }
+            .diff-line-hunk {
+                background: #f1f8ff;
+                color: #586069;
+            }
+            .diff-line-hunk .diff-line-number {
+                background: #dbedff;
+            }
+            .diff-hunk-header {
+                display: inline-flex;
+                gap: 8px;
+                color: #586069;
+            }
+            .diff-hunk-heading {
+                color: #24292e;
+                font-weight: 600;
+            }
+            .diff-expand-buttons {
+                display: inline-flex;
+                gap: 4px;
+            }
+            .diff-expand-button {
+                background: transparent;
+                border: 1px solid #c8e1ff;
+                border-radius: 4px;
+                padding: 0 6px;
+                cursor: pointer;
+                color: #0366d6;
+                font-size: 11px;
+                line-height: 16px;
+            }
+            .diff-expand-button:hover {
+                background: #0366d6;
+                border-color: #0366d6;
+                color: #fff;
+            }
             .old-line-number {
                 border-right: 1px solid #d1d9e0;
             }
@@ -1699,20 +6509,208 @@ export function generateModeSwitchableDiffHtml(
                 line-height: 1.4;
             }
             
-            .pane-content[contenteditable="true"] {
-                outline: none;
-                border: 2px solid transparent;
-                transition: border-color 0.2s ease;
+            .side-line {
+                display: flex;
+                min-height: 20px;
+                border-bottom: 1px solid #f6f8fa;
             }
             
-            .pane-content[contenteditable="true"]:focus {
-                border-color: #0366d6;
+            /* 对面有新增或删除时的占位行 */
+            .side-line-filler {
+                background: repeating-linear-gradient(-45deg, #fafbfc, #fafbfc 4px, #f0f2f4 4px, #f0f2f4 8px);
             }
             
-            .side-line {
+            .side-line-filler .side-line-number {
+                background: transparent;
+            }
+            
+            /* 视图填满容器：头部固定，差异内容自身滚动，并排模式下两侧各自滚动 */
+            .doc-diff-fixed {
                 display: flex;
-                min-height: 20px;
-                border-bottom: 1px solid #f6f8fa;
+                flex-direction: column;
+                overflow: hidden;
+            }
+            
+            .doc-diff-fixed .diff-body {
+                flex: 1;
+                min-height: 0;
+                display: flex;
+            }
+            
+            .doc-diff-fixed .diff-content {
+                flex: 1;
+                min-width: 0;
+                min-height: 0;
+                overflow: auto;
+            }
+            
+            .doc-diff-fixed.doc-diff-side-by-side .diff-content {
+                display: flex;
+                flex-direction: column;
+                overflow: hidden;
+            }
+            
+            .doc-diff-fixed .side-by-side-container {
+                flex: 1;
+                min-height: 0;
+                height: auto;
+            }
+            
+            .doc-diff-fixed .pane-content {
+                min-height: 0;
+            }
+            
+            /* 变更概览条 */
+            .diff-overview-ruler {
+                position: relative;
+                flex: 0 0 14px;
+                background: #f6f8fa;
+                border-left: 1px solid #d1d9e0;
+            }
+            
+            .diff-overview-viewport {
+                position: absolute;
+                left: 0;
+                right: 0;
+                background: rgba(3, 102, 214, 0.12);
+                border: 1px solid rgba(3, 102, 214, 0.4);
+                box-sizing: border-box;
+                pointer-events: none;
+            }
+            
+            .diff-overview-mark {
+                position: absolute;
+                left: 2px;
+                right: 2px;
+                min-height: 2px;
+                cursor: pointer;
+            }
+            
+            .diff-overview-mark:hover {
+                left: 0;
+                right: 0;
+            }
+            
+            .diff-overview-added {
+                background: #28a745;
+            }
+            
+            .diff-overview-removed {
+                background: #d73a49;
+            }
+            
+            .diff-overview-modified {
+                background: #b08800;
+            }
+            
+            .diff-overview-moved {
+                background: #6f42c1;
+            }
+            
+            /* 修订模式：合并为一篇文档，删除的文字加删除线，新增的文字加下划线 */
+            .inline-diff-container {
+                padding: 12px 24px;
+                font-family: var(--b3-font-family, inherit);
+                font-size: 14px;
+                line-height: 1.7;
+            }
+            
+            .inline-diff-line {
+                white-space: pre-wrap;
+                word-break: break-word;
+            }
+            
+            .inline-diff-removed {
+                color: #b31d28;
+                background: #ffeef0;
+                text-decoration: line-through;
+            }
+            
+            .inline-diff-added {
+                color: #22863a;
+                background: #e6ffed;
+                text-decoration: underline;
+            }
+            
+            .inline-diff-line-moved-from .inline-diff-removed,
+            .inline-diff-line-moved-to .inline-diff-added {
+                color: #6f42c1;
+                background: #f5f0ff;
+            }
+            
+            .inline-diff-id {
+                opacity: 0.5;
+            }
+            
+            /* 渲染模式：按思源的显示效果逐块对照，变化的块以左边框颜色标记状态 */
+            .rendered-diff-container .pane-content {
+                font-family: var(--b3-font-family, inherit);
+                font-size: 14px;
+                line-height: 1.6;
+            }
+            
+            .diff-rendered-block {
+                padding: 4px 12px;
+                border-left: 3px solid transparent;
+                box-sizing: border-box;
+            }
+            
+            .diff-virtual-row > .diff-rendered-block {
+                flex: 1 0 auto;
+            }
+            
+            .diff-rendered-inserted {
+                border-left-color: #28a745;
+                background: #f0fff4;
+            }
+            
+            .diff-rendered-deleted {
+                border-left-color: #d73a49;
+                background: #fff5f5;
+            }
+            
+            .diff-rendered-edited {
+                border-left-color: #b08800;
+                background: #fffdef;
+            }
+            
+            .diff-rendered-moved {
+                border-left-color: #6f42c1;
+                background: #f8f4ff;
+            }
+            
+            .diff-rendered-removed {
+                background: #fdb8c0;
+                color: #b31d28;
+                text-decoration: line-through;
+            }
+            
+            .diff-rendered-added {
+                background: #acf2bd;
+                color: #22863a;
+                text-decoration: underline;
+            }
+            
+            .diff-rendered-source {
+                white-space: pre-wrap;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', monospace;
+                font-size: 12px;
+            }
+            
+            /* 光标所在行及另一侧对应的行 */
+            .diff-row-linked > .side-line,
+            .diff-row-linked > .diff-rendered-block {
+                box-shadow: inset 0 0 0 1px #0366d6;
+            }
+            
+            /* 对齐的行按两侧中较高的一侧撑开 */
+            .diff-virtual-row {
+                display: flex;
+                flex-direction: column;
+            }
+            
+            .diff-virtual-row > .side-line {
+                flex: 1 0 auto;
             }
             
             .side-line:hover {
@@ -1738,11 +6736,40 @@ export function generateModeSwitchableDiffHtml(
                 background: #fdb8c0;
             }
             
+            .side-line-modified {
+                background: #fffbdd;
+                color: #24292e;
+            }
+            
+            .side-line-modified .side-line-number {
+                background: #fff5b1;
+            }
+            
+            .side-line-moved {
+                background: #f5f0ff;
+                color: #24292e;
+            }
+            
+            .side-line-moved .side-line-number {
+                background: #e6dcfd;
+            }
+            
             .side-line-context {
                 background: #fff;
                 color: #24292e;
             }
             
+            /* 行内差异高亮 */
+            .diff-inline-added {
+                background: #acf2bd;
+                border-radius: 2px;
+            }
+            
+            .diff-inline-removed {
+                background: #fdb8c0;
+                border-radius: 2px;
+            }
+            
             /* 并排模式ID行使用淡色样式 */
             .side-line-id.side-line-added {
                 background: #f0fff4;
@@ -1762,6 +6789,11 @@ export function generateModeSwitchableDiffHtml(
                 background: #ffeef0;
             }
             
+            .side-line-id.side-line-modified {
+                background: #fffdef;
+                color: #6a737d;
+            }
+            
             /* 并排模式中的空白字符样式 */
             .side-line-added .leading-whitespace,
             .side-line-added .trailing-whitespace {
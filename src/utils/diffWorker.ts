@@ -0,0 +1,19 @@
+/**
+ * 差异计算 Worker
+ * 在后台线程中执行 computeTextDiff，计算过程中回传进度
+ */
+
+import { computeTextDiff } from "./diffUtils";
+import type { DiffWorkerRequest, DiffWorkerResponse } from "./diffWorkerClient";
+
+const post = (response: DiffWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<DiffWorkerRequest>) => {
+    const { id, text1, text2, options } = event.data;
+    try {
+        const result = computeTextDiff(text1, text2, options, progress => post({ id, type: 'progress', progress }));
+        post({ id, type: 'result', result });
+    } catch (error) {
+        post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,112 @@
+/**
+ * 在 Worker 中计算差异
+ * 每次计算使用独立的 Worker，取消时直接终止，不会阻塞界面
+ */
+
+import DiffWorker from "./diffWorker?worker&inline";
+import { computeTextDiff, DiffComputeOptions, DiffProgress, DiffResult } from "./diffUtils";
+
+export interface DiffWorkerRequest {
+    id: number;
+    text1: string;
+    text2: string;
+    options: DiffComputeOptions;
+}
+
+export type DiffWorkerResponse =
+    | { id: number; type: 'progress'; progress: DiffProgress }
+    | { id: number; type: 'result'; result: DiffResult }
+    | { id: number; type: 'error'; message: string };
+
+/**
+ * 计算被取消时 promise 以该错误拒绝
+ */
+export class DiffCancelledError extends Error {
+    constructor() {
+        super('Diff computation cancelled');
+        this.name = 'DiffCancelledError';
+    }
+}
+
+export interface DiffJob {
+    promise: Promise<DiffResult>;
+    cancel: () => void;
+}
+
+let nextJobId = 0;
+
+/**
+ * 启动一次差异计算
+ * 当前环境无法创建 Worker 时退回到主线程计算
+ */
+export function runDiffInWorker(text1: string, text2: string, options: DiffComputeOptions, onProgress?: (progress: DiffProgress) => void): DiffJob {
+    const id = ++nextJobId;
+    let worker: Worker | null = null;
+    let settled = false;
+    let rejectJob: (reason: Error) => void = () => {};
+
+    const finish = () => {
+        settled = true;
+        worker?.terminate();
+        worker = null;
+    };
+
+    const promise = new Promise<DiffResult>((resolve, reject) => {
+        rejectJob = reject;
+        try {
+            worker = new DiffWorker();
+        } catch (error) {
+            console.warn('无法创建差异计算 Worker，改为在主线程中计算:', error);
+            setTimeout(() => {
+                if (settled) {
+                    return;
+                }
+                try {
+                    const result = computeTextDiff(text1, text2, options, onProgress);
+                    finish();
+                    resolve(result);
+                } catch (computeError) {
+                    finish();
+                    reject(computeError);
+                }
+            });
+            return;
+        }
+
+        worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => {
+            const response = event.data;
+            if (settled || response.id !== id) {
+                return;
+            }
+            if (response.type === 'progress') {
+                onProgress?.(response.progress);
+            } else if (response.type === 'result') {
+                finish();
+                resolve(response.result);
+            } else {
+                finish();
+                reject(new Error(response.message));
+            }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+            if (settled) {
+                return;
+            }
+            finish();
+            reject(new Error(event.message));
+        };
+        const request: DiffWorkerRequest = { id, text1, text2, options };
+        worker.postMessage(request);
+    });
+
+    return {
+        promise,
+        cancel: () => {
+            if (settled) {
+                return;
+            }
+            finish();
+            rejectJob(new DiffCancelledError());
+        }
+    };
+}
@@ -0,0 +1,293 @@
+/**
+ * 虚拟滚动列表
+ * 只渲染滚动容器可见范围附近的行，行高在渲染后测量并缓存，未渲染过的行按估计高度占位
+ */
+
+import type { DiffRow } from "./diffUtils";
+
+export interface VirtualListOptions {
+    estimatedRowHeight?: number;  // 未测量过的行的估计高度
+    overscan?: number;  // 可见范围上下额外渲染的高度（像素）
+    onRender?: (container: HTMLElement) => void;  // 每次渲染可见行后调用
+    preserveAnchor?: boolean;  // 上方行高变化时调整滚动位置，多个列表共用滚动容器时只应有一个开启
+}
+
+const DEFAULT_ESTIMATED_ROW_HEIGHT = 21;
+const DEFAULT_OVERSCAN = 600;
+
+export class VirtualList {
+    private readonly natural: Float64Array;  // 行渲染后测量的实际高度，NaN 表示未测量
+    private readonly heights: Float64Array;  // 布局使用的行高，对齐时取各列表中的最大值
+    private readonly offsets: Float64Array;  // offsets[i]：第 i 行顶部到列表顶部的距离
+    private readonly topSpacer: HTMLElement;
+    private readonly container: HTMLElement;
+    private readonly bottomSpacer: HTMLElement;
+    private readonly estimatedRowHeight: number;
+    private readonly overscan: number;
+    private readonly onRender?: (container: HTMLElement) => void;
+    private readonly preserveAnchor: boolean;
+    private start = 0;
+    private end = 0;
+    private frame = 0;
+    private destroyed = false;
+    private peers: VirtualList[] = [];
+
+    constructor(private readonly scroller: HTMLElement, private readonly host: HTMLElement, readonly rows: DiffRow[], options: VirtualListOptions = {}) {
+        this.estimatedRowHeight = options.estimatedRowHeight ?? DEFAULT_ESTIMATED_ROW_HEIGHT;
+        this.overscan = options.overscan ?? DEFAULT_OVERSCAN;
+        this.onRender = options.onRender;
+        this.preserveAnchor = options.preserveAnchor ?? true;
+        this.natural = new Float64Array(rows.length).fill(NaN);
+        this.heights = new Float64Array(rows.length).fill(this.estimatedRowHeight);
+        this.offsets = new Float64Array(rows.length + 1);
+        this.updateOffsets(0);
+
+        this.topSpacer = document.createElement('div');
+        this.container = document.createElement('div');
+        this.bottomSpacer = document.createElement('div');
+        this.container.className = 'diff-virtual-rows';
+        host.replaceChildren(this.topSpacer, this.container, this.bottomSpacer);
+
+        scroller.addEventListener('scroll', this.handleScroll, { passive: true });
+        window.addEventListener('resize', this.handleResize);
+        this.render(true);
+    }
+
+    /**
+     * 让行数相同的几个列表逐行对齐（如并排模式的左右两侧），每行的高度取各列表中该行实际高度的最大值
+     */
+    static align(lists: VirtualList[]): void {
+        for (const list of lists) {
+            list.peers = lists.filter(other => other !== list && other.rows.length === list.rows.length);
+        }
+        for (const list of lists) {
+            list.syncHeights(0, list.rows.length);
+        }
+    }
+
+    /**
+     * 滚动到指定行，并立即渲染该行
+     */
+    scrollToIndex(index: number, align: 'start' | 'center' = 'start'): void {
+        if (index < 0 || index >= this.rows.length) {
+            return;
+        }
+        const listTop = this.getListTop();
+        let target = listTop + this.offsets[index];
+        if (align === 'center') {
+            target -= (this.scroller.clientHeight - this.heights[index]) / 2;
+        }
+        this.scroller.scrollTop = Math.max(0, target);
+        this.render(true);
+        // 测量后行的位置可能变化，再校正一次
+        const corrected = listTop + this.offsets[index] - (align === 'center' ? (this.scroller.clientHeight - this.heights[index]) / 2 : 0);
+        if (Math.abs(corrected - this.scroller.scrollTop) > 1) {
+            this.scroller.scrollTop = Math.max(0, corrected);
+            this.render(true);
+        }
+    }
+
+    /**
+     * 可见范围内的第一行
+     */
+    getFirstVisibleIndex(): number {
+        return this.findIndex(this.scroller.scrollTop - this.getListTop());
+    }
+
+    /**
+     * 可见范围内的最后一行
+     */
+    getLastVisibleIndex(): number {
+        return this.findIndex(this.scroller.scrollTop - this.getListTop() + this.scroller.clientHeight - 1);
+    }
+
+    /**
+     * 当前滚动位置：视口顶部所在的行及其在该行内的比例，用于让另一个列表滚动到对应的位置
+     */
+    getScrollPosition(): { index: number; ratio: number } {
+        const viewTop = this.scroller.scrollTop - this.getListTop();
+        const index = this.findIndex(viewTop);
+        const ratio = Math.min(1, Math.max(0, (viewTop - this.offsets[index]) / this.heights[index]));
+        return { index, ratio };
+    }
+
+    /**
+     * 滚动到 getScrollPosition 返回的位置
+     */
+    setScrollPosition(position: { index: number; ratio: number }): void {
+        const index = Math.min(position.index, this.rows.length - 1);
+        if (index < 0) {
+            return;
+        }
+        this.scroller.scrollTop = Math.max(0, this.getListTop() + this.offsets[index] + this.heights[index] * position.ratio);
+        this.render(false);
+    }
+
+    /**
+     * 指定行是否完整地位于视口内
+     */
+    isIndexVisible(index: number): boolean {
+        const viewTop = this.scroller.scrollTop - this.getListTop();
+        return this.offsets[index] >= viewTop && this.offsets[index + 1] <= viewTop + this.scroller.clientHeight;
+    }
+
+    /**
+     * 获取已渲染的行元素，未渲染时返回 null
+     */
+    getRowElement(index: number): HTMLElement | null {
+        if (index < this.start || index >= this.end) {
+            return null;
+        }
+        return this.container.children[index - this.start] as HTMLElement;
+    }
+
+    /**
+     * 重新渲染可见的行，用于行的内容依赖的外部状态变化后
+     */
+    refresh(): void {
+        this.render(true);
+    }
+
+    destroy(): void {
+        this.destroyed = true;
+        cancelAnimationFrame(this.frame);
+        this.scroller.removeEventListener('scroll', this.handleScroll);
+        window.removeEventListener('resize', this.handleResize);
+    }
+
+    private handleScroll = () => {
+        if (this.frame) {
+            return;
+        }
+        this.frame = requestAnimationFrame(() => {
+            this.frame = 0;
+            this.render(false);
+        });
+    };
+
+    private handleResize = () => {
+        // 宽度变化后行高可能改变，重新测量
+        this.natural.fill(NaN);
+        this.heights.fill(this.estimatedRowHeight);
+        this.updateOffsets(0);
+        this.render(true);
+    };
+
+    /**
+     * 列表顶部在滚动内容中的位置
+     */
+    private getListTop(): number {
+        return this.host.getBoundingClientRect().top - this.scroller.getBoundingClientRect().top + this.scroller.scrollTop;
+    }
+
+    /**
+     * 二分查找包含指定位置的行
+     */
+    private findIndex(position: number): number {
+        let low = 0;
+        let high = this.rows.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.offsets[mid] <= position) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return Math.max(0, low);
+    }
+
+    /**
+     * 行的布局高度：自身及对齐列表中已测量高度的最大值，都未测量时使用估计高度
+     */
+    private layoutHeight(index: number): number {
+        let height = this.natural[index];
+        for (const peer of this.peers) {
+            const peerHeight = peer.natural[index];
+            if (Number.isNaN(height) || peerHeight > height) {
+                height = peerHeight;
+            }
+        }
+        return Number.isNaN(height) ? this.estimatedRowHeight : height;
+    }
+
+    /**
+     * 按测量结果更新 [from, to) 行的布局高度及已渲染行的布局，返回第一个高度变化的行，没有变化时返回 -1
+     */
+    private syncHeights(from: number, to: number): number {
+        let firstChanged = -1;
+        for (let i = from; i < to; i++) {
+            const height = this.layoutHeight(i);
+            if (height !== this.heights[i]) {
+                this.heights[i] = height;
+                if (firstChanged < 0) {
+                    firstChanged = i;
+                }
+            }
+        }
+        if (firstChanged >= 0) {
+            this.updateOffsets(firstChanged);
+        }
+        this.topSpacer.style.height = `${this.offsets[this.start]}px`;
+        this.bottomSpacer.style.height = `${this.offsets[this.rows.length] - this.offsets[this.end]}px`;
+        if (this.peers.length > 0) {
+            // 对齐的行按布局高度撑开
+            const children = this.container.children;
+            for (let i = this.start; i < this.end; i++) {
+                (children[i - this.start] as HTMLElement).style.minHeight = `${this.heights[i]}px`;
+            }
+        }
+        return firstChanged;
+    }
+
+    private updateOffsets(from: number): void {
+        for (let i = from; i < this.rows.length; i++) {
+            this.offsets[i + 1] = this.offsets[i] + this.heights[i];
+        }
+    }
+
+    private render(force: boolean, pass = 0): void {
+        if (this.destroyed || !this.host.isConnected) {
+            return;
+        }
+        const listTop = this.getListTop();
+        const viewTop = this.scroller.scrollTop - listTop;
+        const start = this.findIndex(viewTop - this.overscan);
+        let end = this.findIndex(viewTop + this.scroller.clientHeight + this.overscan) + 1;
+        end = Math.min(end, this.rows.length);
+        if (!force && start === this.start && end === this.end) {
+            return;
+        }
+
+        // 记录可见的第一行在视口中的位置，测量后保持不动，避免上方行高变化导致内容跳动
+        const anchor = this.findIndex(viewTop);
+        const anchorOffset = this.offsets[anchor] - viewTop;
+
+        this.start = start;
+        this.end = end;
+        let html = '';
+        for (let i = start; i < end; i++) {
+            html += `<div class="diff-virtual-row" data-row-index="${i}">${this.rows[i].render()}</div>`;
+        }
+        this.container.innerHTML = html;
+        this.onRender?.(this.container);
+
+        // 测量渲染出的行，对齐的列表同步更新布局
+        const children = this.container.children;
+        for (let i = start; i < end; i++) {
+            this.natural[i] = (children[i - start] as HTMLElement).offsetHeight;
+        }
+        const firstChanged = this.syncHeights(start, end);
+        for (const peer of this.peers) {
+            peer.syncHeights(start, end);
+        }
+
+        if (this.preserveAnchor && firstChanged >= 0 && firstChanged < anchor) {
+            this.scroller.scrollTop = listTop + this.offsets[anchor] - anchorOffset;
+        }
+        // 实际行高小于估计值时渲染的行可能不足以填满视口，补渲染一次
+        if (firstChanged >= 0 && pass < 2) {
+            this.render(false, pass + 1);
+        }
+    }
+}